@@ -5,6 +5,7 @@ import '@rainbow-me/rainbowkit/styles.css';
 
 import { config } from './config/wagmi';
 import { NovaMintApp } from './components/NovaMintApp';
+import { ZamaProvider } from './components/ZamaProvider';
 
 const queryClient = new QueryClient();
 
@@ -13,7 +14,9 @@ function App() {
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider locale="en">
-          <NovaMintApp />
+          <ZamaProvider>
+            <NovaMintApp />
+          </ZamaProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
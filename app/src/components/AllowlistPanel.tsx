@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { isAddress } from 'ethers';
+import { toHex } from 'viem';
+
+import { requireContractAddress, useContractAddress } from '../hooks/useContractAddress';
+import { useNovaMintTx } from '../hooks/useNovaMintTx';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import type { Collection } from './NovaMintApp';
+import { TxStatusLine } from './TxStatusLine';
+
+type Props = {
+  collection: Collection;
+  activeAddress?: string;
+};
+
+type AllowlistEntry = {
+  account: `0x${string}`;
+  allowance: number;
+};
+
+const MAX_ALLOWANCE = 2 ** 32 - 1;
+
+function parseEntries(raw: string): AllowlistEntry[] {
+  return raw
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      const [account, allowance = '1'] = line.split(/[\s,;]+/);
+      const parsedAllowance = Number(allowance);
+      if (!isAddress(account)) {
+        throw new Error(`Line ${index + 1}: "${account}" is not a valid address.`);
+      }
+      if (!Number.isInteger(parsedAllowance) || parsedAllowance < 0 || parsedAllowance > MAX_ALLOWANCE) {
+        throw new Error(`Line ${index + 1}: allowance must be a whole number.`);
+      }
+      return { account: account as `0x${string}`, allowance: parsedAllowance };
+    });
+}
+
+export function AllowlistPanel({ collection, activeAddress }: Props) {
+  const contractAddress = useContractAddress();
+  const { instance, isLoading: zamaLoading } = useZamaInstance();
+  const tx = useNovaMintTx();
+
+  const [entries, setEntries] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [isToggling, setIsToggling] = useState(false);
+
+  const handleUpload = async () => {
+    tx.reset();
+    if (!instance) {
+      tx.fail('Encryption service is not ready.');
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const parsed = parseEntries(entries);
+      if (!parsed.length) {
+        throw new Error('Add at least one "address, allowance" line.');
+      }
+
+      if (!activeAddress) {
+        throw new Error('Connect your creator wallet to continue.');
+      }
+
+      tx.report('Encrypting allowances...');
+      const input = instance.createEncryptedInput(requireContractAddress(contractAddress), activeAddress);
+      parsed.forEach((entry) => input.add32(entry.allowance));
+      const encrypted = await input.encrypt();
+
+      await tx.send({
+        functionName: 'setAllowlist',
+        args: [collection.id, parsed.map((entry) => entry.account), encrypted.handles.map((handle) => toHex(handle)), toHex(encrypted.inputProof)],
+        pending: `Uploading ${parsed.length} encrypted allowance(s)...`,
+        confirmed: 'Allowlist updated. Allowances stay encrypted on-chain.',
+      });
+      setEntries('');
+    } catch (error) {
+      tx.fail(error, 'Failed to update the allowlist.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleToggle = async () => {
+    tx.reset();
+    setIsToggling(true);
+    try {
+      await tx.send({
+        functionName: 'setAllowlistEnabled',
+        args: [collection.id, !collection.allowlistEnabled],
+        pending: collection.allowlistEnabled ? 'Opening public minting...' : 'Enabling allowlist minting...',
+        confirmed: collection.allowlistEnabled ? 'Public minting is open.' : 'Only allowlisted wallets can mint now.',
+        effects: { collectionId: collection.id },
+      });
+    } catch (error) {
+      tx.fail(error, 'Failed to change allowlist mode.');
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
+  return (
+    <div className="allowlist-panel">
+      <div className="subpanel-header">
+        <p className="stat-label">Encrypted allowlist</p>
+        <button type="button" className="ghost" onClick={handleToggle} disabled={isToggling}>
+          {isToggling ? 'Saving...' : collection.allowlistEnabled ? 'Open public mint' : 'Require allowlist'}
+        </button>
+      </div>
+      <textarea
+        value={entries}
+        onChange={(event) => setEntries(event.target.value)}
+        placeholder={'0x1234..., 2\n0xabcd..., 1'}
+        rows={3}
+      />
+      <p className="muted">One address per line with its mint allowance. Use 0 to remove an address.</p>
+      <button type="button" onClick={handleUpload} disabled={isUploading || zamaLoading}>
+        {isUploading ? 'Encrypting...' : 'Upload encrypted allowances'}
+      </button>
+      <TxStatusLine status={tx.status} />
+    </div>
+  );
+}
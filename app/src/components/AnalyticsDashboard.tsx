@@ -0,0 +1,272 @@
+import { useMemo, useState } from 'react';
+
+import { useIndexerQuery } from '../hooks/useIndexerQuery';
+import { useIndexerUrl } from '../hooks/useIndexerUrl';
+
+type Props = {
+  activeAddress?: string;
+};
+
+type Overview = {
+  collections: number;
+  supply: number;
+  mints: number;
+  uniqueMinters: number;
+  uniqueHolders: number;
+  secondaryTransfers: number;
+};
+
+type MintBucket = { collectionId: number; name: string; bucket: number; mints: number };
+type CollectionHolders = { collectionId: number; name: string; holders: number; tokens: number };
+type TopMinter = { minter: string; mints: number; collections: number };
+type SellThrough = {
+  collectionId: number;
+  name: string;
+  maxSupply: number;
+  createdAt: number;
+  minted: number;
+  firstMintAt: number | null;
+  lastMintAt: number | null;
+  soldOutAt: number | null;
+  sellThroughSeconds: number | null;
+};
+type CreatorTotals = { creator: string; collections: number; supply: number; minted: number; holders: number };
+
+const MAX_BUCKETS = 30;
+
+function formatAddress(address?: string) {
+  if (!address) return '';
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function formatDuration(seconds: number) {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)}h`;
+  return `${(seconds / 86400).toFixed(1)}d`;
+}
+
+function formatBucket(bucket: number, size: 'hour' | 'day') {
+  const date = new Date(bucket * 1000);
+  return size === 'day' ? date.toLocaleDateString() : date.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+}
+
+function BarList({ rows }: { rows: { key: string; label: string; value: number; caption?: string }[] }) {
+  const max = Math.max(1, ...rows.map((row) => row.value));
+  if (!rows.length) {
+    return <p className="muted">No data yet.</p>;
+  }
+  return (
+    <ul className="bar-list">
+      {rows.map((row) => (
+        <li key={row.key}>
+          <div className="bar-label">
+            <span>{row.label}</span>
+            <span className="muted">{row.caption ?? row.value}</span>
+          </div>
+          <div className="progress-track">
+            <div className="progress-fill" style={{ width: `${(row.value / max) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function MintVelocity({ buckets, size }: { buckets: MintBucket[]; size: 'hour' | 'day' }) {
+  // One row per collection over a shared time axis of the most recent buckets.
+  const { axis, rows, max } = useMemo(() => {
+    const axis = [...new Set(buckets.map((entry) => entry.bucket))].sort((a, b) => a - b).slice(-MAX_BUCKETS);
+    const byCollection = new Map<number, { name: string; counts: Map<number, number> }>();
+    for (const entry of buckets) {
+      const row = byCollection.get(entry.collectionId) ?? { name: entry.name, counts: new Map() };
+      row.counts.set(entry.bucket, entry.mints);
+      byCollection.set(entry.collectionId, row);
+    }
+    const rows = [...byCollection.entries()].map(([collectionId, row]) => ({
+      collectionId,
+      name: row.name,
+      counts: axis.map((bucket) => row.counts.get(bucket) ?? 0),
+    }));
+    const max = Math.max(1, ...rows.flatMap((row) => row.counts));
+    return { axis, rows, max };
+  }, [buckets]);
+
+  if (!rows.length) {
+    return <p className="muted">No mints yet.</p>;
+  }
+
+  return (
+    <div className="velocity-chart">
+      {rows.map((row) => (
+        <div key={row.collectionId} className="velocity-row">
+          <span className="velocity-name">{row.name}</span>
+          <div className="velocity-bars">
+            {row.counts.map((count, index) => (
+              <span
+                key={axis[index]}
+                style={{ height: `${(count / max) * 100}%` }}
+                title={`${formatBucket(axis[index], size)}: ${count} minted`}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+      <p className="muted">
+        {formatBucket(axis[0], size)} – {formatBucket(axis[axis.length - 1], size)}
+      </p>
+    </div>
+  );
+}
+
+export function AnalyticsDashboard({ activeAddress }: Props) {
+  const [showMine, setShowMine] = useState(false);
+  const [bucket, setBucket] = useState<'hour' | 'day'>('day');
+  const indexerUrl = useIndexerUrl();
+
+  const scope = showMine && activeAddress ? `creator=${activeAddress}` : '';
+  const overview = useIndexerQuery<Overview>(`/analytics/overview?${scope}`);
+  const mints = useIndexerQuery<MintBucket[]>(`/analytics/mints?bucket=${bucket}&${scope}`);
+  const holders = useIndexerQuery<CollectionHolders[]>(`/analytics/holders?${scope}`);
+  const topMinters = useIndexerQuery<TopMinter[]>(`/analytics/top-minters?limit=10&${scope}`);
+  const sellThrough = useIndexerQuery<SellThrough[]>(`/analytics/sell-through?${scope}`);
+  const creators = useIndexerQuery<CreatorTotals[]>(`/analytics/creators?${scope}`);
+
+  if (!indexerUrl || overview.isError) {
+    return (
+      <div className="placeholder">
+        Analytics are built from the indexed event history. Start the indexer with <code>cd indexer && npm run dev</code>
+        and list it for this chain in <code>VITE_INDEXER_URL</code>.
+      </div>
+    );
+  }
+  if (overview.isLoading || !overview.data) {
+    return <div className="placeholder">Loading analytics from the indexer...</div>;
+  }
+
+  const stats = overview.data;
+
+  return (
+    <div className="analytics">
+      <div className="analytics-controls">
+        {activeAddress ? (
+          <div className="filter-toggle">
+            <button type="button" className={showMine ? 'ghost' : ''} onClick={() => setShowMine(false)}>
+              All drops
+            </button>
+            <button type="button" className={showMine ? '' : 'ghost'} onClick={() => setShowMine(true)}>
+              My collections
+            </button>
+          </div>
+        ) : null}
+        <div className="filter-toggle">
+          <button type="button" className={bucket === 'day' ? '' : 'ghost'} onClick={() => setBucket('day')}>
+            Daily
+          </button>
+          <button type="button" className={bucket === 'hour' ? '' : 'ghost'} onClick={() => setBucket('hour')}>
+            Hourly
+          </button>
+        </div>
+      </div>
+
+      <div className="analytics-stats">
+        <div className="stat-card">
+          <p className="stat-label">Minted / Supply</p>
+          <p className="stat-value">
+            {stats.mints} <span className="stat-separator">/</span> {stats.supply}
+          </p>
+          <p className="stat-caption">Across {stats.collections} collections</p>
+        </div>
+        <div className="stat-card">
+          <p className="stat-label">Unique holders</p>
+          <p className="stat-value">{stats.uniqueHolders}</p>
+          <p className="stat-caption">{stats.uniqueMinters} wallets minted</p>
+        </div>
+        <div className="stat-card">
+          <p className="stat-label">Secondary transfers</p>
+          <p className="stat-value">{stats.secondaryTransfers}</p>
+          <p className="stat-caption">Transfers after mint</p>
+        </div>
+      </div>
+
+      <div className="analytics-grid">
+        <div className="analytics-card wide">
+          <p className="stat-label">Mints over time</p>
+          <MintVelocity buckets={mints.data ?? []} size={bucket} />
+        </div>
+        <div className="analytics-card">
+          <p className="stat-label">Unique holders</p>
+          <BarList
+            rows={(holders.data ?? []).map((row) => ({
+              key: String(row.collectionId),
+              label: row.name,
+              value: row.holders,
+              caption: `${row.holders} holders · ${row.tokens} tokens`,
+            }))}
+          />
+        </div>
+        <div className="analytics-card">
+          <p className="stat-label">Top minters</p>
+          <BarList
+            rows={(topMinters.data ?? []).map((row) => ({
+              key: row.minter,
+              label: formatAddress(row.minter),
+              value: row.mints,
+              caption: `${row.mints} minted · ${row.collections} collections`,
+            }))}
+          />
+        </div>
+        <div className="analytics-card wide">
+          <p className="stat-label">Sell-through</p>
+          <table className="analytics-table">
+            <thead>
+              <tr>
+                <th>Collection</th>
+                <th>Minted</th>
+                <th>First mint after</th>
+                <th>Sold out after</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(sellThrough.data ?? []).map((row) => (
+                <tr key={row.collectionId}>
+                  <td>{row.name}</td>
+                  <td>
+                    {row.minted} / {row.maxSupply} ({Math.round((row.minted / Math.max(1, row.maxSupply)) * 100)}%)
+                  </td>
+                  <td>{row.firstMintAt !== null ? formatDuration(row.firstMintAt - row.createdAt) : '—'}</td>
+                  <td>{row.sellThroughSeconds !== null ? formatDuration(row.sellThroughSeconds) : 'Still minting'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="analytics-card wide">
+          <p className="stat-label">Per-creator totals</p>
+          <table className="analytics-table">
+            <thead>
+              <tr>
+                <th>Creator</th>
+                <th>Collections</th>
+                <th>Minted / Supply</th>
+                <th>Holders</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(creators.data ?? []).map((row) => (
+                <tr key={row.creator}>
+                  <td>{row.creator === activeAddress ? 'You' : formatAddress(row.creator)}</td>
+                  <td>{row.collections}</td>
+                  <td>
+                    {row.minted} / {row.supply}
+                  </td>
+                  <td>{row.holders}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,31 @@
 import { useState } from 'react';
-import { Contract } from 'ethers';
+import { ZeroAddress, formatEther } from 'ethers';
+import { toHex } from 'viem';
+import { useReadContract } from 'wagmi';
 
-import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
-import { useEthersSigner } from '../hooks/useEthersSigner';
-import type { useZamaInstance } from '../hooks/useZamaInstance';
+import { CONTRACT_ABI } from '../config/contracts';
+import { requireContractAddress, useContractAddress } from '../hooks/useContractAddress';
+import { useMintWindow } from '../hooks/useMintWindow';
+import { useNovaMintTx } from '../hooks/useNovaMintTx';
+import { useUserDecrypt } from '../hooks/useUserDecrypt';
+import { resolveMediaUri } from '../hooks/useTokenMetadata';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { findEvent } from '../tx/events';
 import type { Collection } from './NovaMintApp';
+import { TokenViewer } from './TokenViewer';
+import { AllowlistPanel } from './AllowlistPanel';
+import { TreasuryPanel } from './TreasuryPanel';
+import { ViewersPanel } from './ViewersPanel';
+import { HiddenOwnerActionsPanel } from './HiddenOwnerActionsPanel';
+import { HiddenOwnerHistoryPanel } from './HiddenOwnerHistoryPanel';
+import { CreatorRolePanel } from './CreatorRolePanel';
+import { MintWindowPanel } from './MintWindowPanel';
+import { RoyaltyPanel } from './RoyaltyPanel';
+import { TxStatusLine } from './TxStatusLine';
 
 type Props = {
   collection: Collection;
   activeAddress?: string;
-  onActionComplete: () => void;
-  zama: ReturnType<typeof useZamaInstance>;
 };
 
 function formatAddress(address?: string) {
@@ -22,20 +37,50 @@ function formatBigint(value: bigint) {
   return value.toString();
 }
 
-export function CollectionCard({ collection, activeAddress, onActionComplete, zama }: Props) {
-  const signerPromise = useEthersSigner();
-  const { instance, isLoading: zamaLoading } = zama;
+function formatCountdown(seconds: number) {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const parts = days > 0 ? [`${days}d`, `${hours}h`, `${minutes}m`] : [`${hours}h`, `${minutes}m`, `${seconds % 60}s`];
+  return parts.join(' ');
+}
+
+export function CollectionCard({ collection, activeAddress }: Props) {
+  const contractAddress = useContractAddress();
+  const { instance, isLoading: zamaLoading } = useZamaInstance();
+  const tx = useNovaMintTx();
+  const { decrypt, valueOf } = useUserDecrypt();
+  // Rotation and viewer revocation re-encrypt the owner under a new handle, which drops this value by itself.
+  const decryptedOwner = (valueOf(collection.hiddenOwner) as string | undefined) ?? null;
 
   const [isMinting, setIsMinting] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [status, setStatus] = useState('');
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [isAccepting, setIsAccepting] = useState(false);
   const [newHiddenOwner, setNewHiddenOwner] = useState('');
-  const [decryptedOwner, setDecryptedOwner] = useState<string | null>(null);
+  const [showTokens, setShowTokens] = useState(false);
+  const [showOwnerActions, setShowOwnerActions] = useState(false);
+  const [quantity, setQuantity] = useState('1');
 
   const isCreator =
     activeAddress &&
     collection.creator.toLowerCase() === (activeAddress as string).toLowerCase();
+  const isPendingCreator =
+    activeAddress &&
+    collection.pendingCreator.toLowerCase() === (activeAddress as string).toLowerCase();
+  const isRenounced = collection.creator === ZeroAddress;
+
+  const { data: isViewer } = useReadContract({
+    address: contractAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'isViewer',
+    args: [collection.id, activeAddress as `0x${string}`],
+    query: { enabled: Boolean(activeAddress) && !isCreator },
+  });
+  const canDecrypt = Boolean(isCreator || isViewer);
+
+  const isRevealed = collection.revealedOwner !== ZeroAddress;
 
   const progress =
     collection.maxSupply > 0n
@@ -45,150 +90,237 @@ export function CollectionCard({ collection, activeAddress, onActionComplete, za
         )
       : 0;
 
+  const supplyLeft = collection.maxSupply - collection.minted;
+  const hasWalletLimit = collection.maxPerWallet > 0n;
+  const { phase, secondsLeft } = useMintWindow(collection);
+  const isMintable = phase === 'open' && supplyLeft > 0n;
+
+  const { data: mintedByWallet } = useReadContract({
+    address: contractAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'mintedBy',
+    args: [collection.id, activeAddress as `0x${string}`],
+    query: { enabled: Boolean(activeAddress) && hasWalletLimit },
+  });
+
+  const walletLeft = hasWalletLimit
+    ? collection.maxPerWallet - ((mintedByWallet as bigint | undefined) ?? 0n)
+    : supplyLeft;
+  const maxQuantity = walletLeft < supplyLeft ? walletLeft : supplyLeft;
+  const parsedQuantity = BigInt(quantity || '0');
+  const mintCost = collection.mintPrice * parsedQuantity;
+
+  const mintFromAllowlist = async () => {
+    if (!instance) {
+      throw new Error('Encryption service is not ready.');
+    }
+
+    const receipt = await tx.send({
+      functionName: 'requestAllowlistMint',
+      args: [collection.id, parsedQuantity],
+      value: mintCost,
+      pending: 'Checking your encrypted allowance...',
+      effects: { collectionId: collection.id },
+    });
+    const requested = findEvent(receipt, requireContractAddress(contractAddress), 'AllowlistMintRequested');
+    if (!requested) {
+      throw new Error('Allowlist request was not recorded.');
+    }
+
+    const { requestId, approved } = requested.args;
+    tx.report('Waiting for the eligibility decryption...');
+    const decryption = await instance.publicDecrypt([approved]);
+
+    await tx.send({
+      functionName: 'finalizeAllowlistMint',
+      args: [requestId, decryption.abiEncodedClearValues, decryption.decryptionProof],
+      pending: 'Finalizing mint...',
+      confirmed: decryption.clearValues[approved]
+        ? 'Minted successfully.'
+        : 'This wallet has no remaining allowlist allowance. Withdraw your payment from My NFTs.',
+      effects: { collectionId: collection.id, tokens: true, refunds: true },
+    });
+  };
+
   const handleMint = async () => {
-    setStatus('');
+    tx.reset();
+    if (parsedQuantity <= 0n) {
+      tx.fail('Choose how many tokens to mint.');
+      return;
+    }
+    if (parsedQuantity > maxQuantity) {
+      tx.fail(
+        hasWalletLimit && walletLeft < supplyLeft
+          ? `This wallet can mint ${formatBigint(walletLeft > 0n ? walletLeft : 0n)} more.`
+          : `Only ${formatBigint(supplyLeft)} tokens left.`
+      );
+      return;
+    }
+
     setIsMinting(true);
     try {
-      const signer = await signerPromise;
-      if (!signer) {
-        throw new Error('Connect your wallet to mint.');
+      if (collection.allowlistEnabled) {
+        await mintFromAllowlist();
+      } else {
+        await tx.send({
+          functionName: 'mintBatch',
+          args: [collection.id, parsedQuantity],
+          value: mintCost,
+          pending: parsedQuantity > 1n ? `Minting ${formatBigint(parsedQuantity)} tokens...` : 'Minting token...',
+          confirmed: 'Minted successfully.',
+          effects: { collectionId: collection.id, tokens: true },
+        });
       }
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.mint(collection.id);
-      setStatus('Minting token...');
-      await tx.wait();
-      setStatus('Minted successfully.');
-      onActionComplete();
+      setQuantity('1');
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Mint failed.';
-      setStatus(message);
+      tx.fail(error, 'Mint failed.');
     } finally {
       setIsMinting(false);
     }
   };
 
   const handleUpdateHiddenOwner = async () => {
-    setStatus('');
+    tx.reset();
     if (!isCreator) {
-      setStatus('Only the creator can rotate the hidden owner.');
+      tx.fail('Only the creator can rotate the hidden owner.');
       return;
     }
     if (!newHiddenOwner.trim()) {
-      setStatus('Add the new owner address.');
+      tx.fail('Add the new owner address.');
       return;
     }
     if (!instance) {
-      setStatus('Encryption service is not ready.');
+      tx.fail('Encryption service is not ready.');
       return;
     }
 
     setIsUpdating(true);
     try {
-      const signer = await signerPromise;
-      if (!signer || !activeAddress) {
+      if (!activeAddress) {
         throw new Error('Connect your creator wallet to continue.');
       }
 
-      const input = instance.createEncryptedInput(CONTRACT_ADDRESS, activeAddress);
+      tx.report('Encrypting the new owner...');
+      const input = instance.createEncryptedInput(requireContractAddress(contractAddress), activeAddress);
       input.addAddress(newHiddenOwner.trim());
       const encrypted = await input.encrypt();
 
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.setHiddenOwner(
-        collection.id,
-        encrypted.handles[0],
-        encrypted.inputProof
-      );
-      setStatus('Updating hidden owner...');
-      await tx.wait();
-
-      setStatus('Hidden owner updated.');
+      await tx.send({
+        functionName: 'setHiddenOwner',
+        args: [collection.id, toHex(encrypted.handles[0]), toHex(encrypted.inputProof)],
+        pending: 'Updating hidden owner...',
+        confirmed: 'Hidden owner updated.',
+        effects: { collectionId: collection.id },
+      });
       setNewHiddenOwner('');
-      onActionComplete();
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to update hidden owner.';
-      setStatus(message);
+      tx.fail(error, 'Failed to update hidden owner.');
     } finally {
       setIsUpdating(false);
     }
   };
 
   const handleDecryptHiddenOwner = async () => {
-    setStatus('');
-    if (!isCreator) {
-      setStatus('Only the creator can decrypt this owner.');
+    tx.reset();
+    if (!canDecrypt) {
+      tx.fail('Only the creator and granted viewers can decrypt this owner.');
       return;
     }
     if (!instance) {
-      setStatus('Encryption service is not ready.');
+      tx.fail('Encryption service is not ready.');
       return;
     }
 
     setIsDecrypting(true);
     try {
-      const signer = await signerPromise;
-      if (!signer || !activeAddress) {
-        throw new Error('Connect your creator wallet to decrypt.');
-      }
+      await decrypt([collection.hiddenOwner]);
+      tx.succeed('Hidden owner decrypted.');
+    } catch (error) {
+      tx.fail(error, 'Failed to decrypt.');
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
 
-      const keypair = instance.generateKeypair();
-      const handleContractPairs = [
-        {
-          handle: collection.hiddenOwner,
-          contractAddress: CONTRACT_ADDRESS,
-        },
-      ];
-      const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-      const durationDays = '7';
-      const contractAddresses = [CONTRACT_ADDRESS];
-
-      const eip712 = instance.createEIP712(
-        keypair.publicKey,
-        contractAddresses,
-        startTimeStamp,
-        durationDays
-      );
+  const handleAcceptCreator = async () => {
+    tx.reset();
+    setIsAccepting(true);
+    try {
+      await tx.send({
+        functionName: 'acceptCreator',
+        args: [collection.id],
+        pending: 'Accepting the creator role...',
+        confirmed: 'You are now the creator of this collection.',
+        effects: { collectionId: collection.id, collections: true },
+      });
+    } catch (error) {
+      tx.fail(error, 'Failed to accept the creator role.');
+    } finally {
+      setIsAccepting(false);
+    }
+  };
 
-      const signature = await signer.signTypedData(
-        eip712.domain,
-        {
-          UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-        },
-        eip712.message
-      );
+  const handleReveal = async () => {
+    tx.reset();
+    if (!collection.revealPending && !isCreator) {
+      tx.fail('Only the creator can reveal the hidden owner.');
+      return;
+    }
+    if (!instance) {
+      tx.fail('Encryption service is not ready.');
+      return;
+    }
 
-      const result = await instance.userDecrypt(
-        handleContractPairs,
-        keypair.privateKey,
-        keypair.publicKey,
-        signature.replace('0x', ''),
-        contractAddresses,
-        activeAddress,
-        startTimeStamp,
-        durationDays
-      );
+    setIsRevealing(true);
+    try {
+      if (!collection.revealPending) {
+        await tx.send({
+          functionName: 'requestReveal',
+          args: [collection.id],
+          pending: 'Making the hidden owner publicly decryptable...',
+          effects: { collectionId: collection.id },
+        });
+      }
+
+      tx.report('Waiting for the public decryption...');
+      const decryption = await instance.publicDecrypt([collection.hiddenOwner]);
 
-      setDecryptedOwner(result[collection.hiddenOwner]);
-      setStatus('Hidden owner decrypted.');
+      await tx.send({
+        functionName: 'finalizeReveal',
+        args: [collection.id, decryption.abiEncodedClearValues, decryption.decryptionProof],
+        pending: 'Recording the revealed owner...',
+        confirmed: 'Hidden owner revealed.',
+        effects: { collectionId: collection.id },
+      });
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to decrypt.';
-      setStatus(message);
+      tx.fail(error, 'Failed to reveal the hidden owner.');
     } finally {
-      setIsDecrypting(false);
+      setIsRevealing(false);
     }
   };
 
-  const supplyLeft = collection.maxSupply - collection.minted;
-
   return (
-    <div className="collection-card">
+    <div className="collection-card" id={`collection-${collection.id}`}>
+      {collection.image ? (
+        <img className="collection-art" src={resolveMediaUri(collection.image)} alt={collection.name} />
+      ) : null}
       <div className="card-header">
         <div>
           <p className="eyebrow">#{collection.id.toString().padStart(3, '0')}</p>
           <h3>{collection.name}</h3>
+          {collection.description ? <p className="muted">{collection.description}</p> : null}
           <p className="muted">
-            Creator: <span className="pill">{formatAddress(collection.creator)}</span>
+            Creator:{' '}
+            <span className="pill">{isRenounced ? 'Renounced' : formatAddress(collection.creator)}</span>
           </p>
+          {isPendingCreator ? (
+            <div className="inline-field">
+              <span className="muted">The creator offered you this collection.</span>
+              <button type="button" onClick={handleAcceptCreator} disabled={isAccepting}>
+                {isAccepting ? 'Accepting...' : 'Accept creator role'}
+              </button>
+            </div>
+          ) : null}
         </div>
         <div className="supply-box">
           <p className="stat-label">Supply</p>
@@ -199,15 +331,88 @@ export function CollectionCard({ collection, activeAddress, onActionComplete, za
             <div className="progress-fill" style={{ width: `${progress}%` }} />
           </div>
           <p className="stat-caption">{formatBigint(supplyLeft >= 0n ? supplyLeft : 0n)} left</p>
+          <p className="stat-caption">
+            {collection.mintPrice > 0n ? `${formatEther(collection.mintPrice)} ETH each` : 'Free mint'}
+          </p>
+          {collection.balance > 0n ? (
+            <p className="stat-caption">{formatEther(collection.balance)} ETH unclaimed</p>
+          ) : null}
+          {collection.royaltyBps > 0n ? (
+            <p className="stat-caption">{Number(collection.royaltyBps) / 100}% resale royalty</p>
+          ) : null}
+          {collection.allowlistEnabled ? <p className="stat-caption">Allowlist only</p> : null}
+          {supplyLeft > 0n ? (
+            <p className={`stat-caption mint-phase ${phase}`}>
+              {phase === 'paused'
+                ? 'Minting paused'
+                : phase === 'ended'
+                  ? 'Mint ended'
+                  : secondsLeft === null
+                    ? 'Minting open'
+                    : phase === 'scheduled'
+                      ? `Opens in ${formatCountdown(secondsLeft)}`
+                      : `Closes in ${formatCountdown(secondsLeft)}`}
+            </p>
+          ) : null}
+          {hasWalletLimit ? (
+            <p className="stat-caption">Limit {formatBigint(collection.maxPerWallet)} per wallet</p>
+          ) : null}
         </div>
       </div>
 
-      <div className="card-actions">
-        <button onClick={handleMint} disabled={isMinting || zamaLoading || supplyLeft <= 0n}>
-          {isMinting ? 'Minting...' : supplyLeft > 0n ? 'Mint NFT' : 'Sold out'}
+      <div className="token-section">
+        <button type="button" className="ghost" onClick={() => setShowTokens((value) => !value)}>
+          {showTokens ? 'Hide tokens' : 'View tokens'}
         </button>
+        {showTokens ? <TokenViewer collection={collection} /> : null}
+      </div>
+
+      <div className="card-actions">
+        <div className="mint-row">
+          <input
+            className="quantity-input"
+            type="number"
+            min={1}
+            max={maxQuantity > 0n ? Number(maxQuantity) : 1}
+            value={quantity}
+            onChange={(event) => setQuantity(event.target.value.replace(/[^0-9]/g, ''))}
+            disabled={isMinting || !isMintable}
+            aria-label="Quantity"
+          />
+          <button onClick={handleMint} disabled={isMinting || zamaLoading || !isMintable || maxQuantity <= 0n}>
+            {isMinting
+              ? 'Minting...'
+              : supplyLeft <= 0n
+                ? 'Sold out'
+                : phase === 'paused'
+                  ? 'Paused'
+                  : phase === 'scheduled'
+                    ? 'Not started'
+                    : phase === 'ended'
+                      ? 'Ended'
+                      : maxQuantity <= 0n
+                        ? 'Wallet limit reached'
+                        : parsedQuantity > 1n
+                          ? `Mint ${formatBigint(parsedQuantity)} NFTs`
+                          : 'Mint NFT'}
+            {!isMinting && isMintable && mintCost > 0n && maxQuantity > 0n ? ` · ${formatEther(mintCost)} ETH` : ''}
+          </button>
+        </div>
+        {hasWalletLimit && activeAddress ? (
+          <p className="muted">
+            You minted {formatBigint((mintedByWallet as bigint | undefined) ?? 0n)} of{' '}
+            {formatBigint(collection.maxPerWallet)} allowed.
+          </p>
+        ) : null}
         <div className="owner-tools">
-          <div className="pill">Hidden owner: encrypted</div>
+          <div className="pill">
+            {isRevealed ? `Revealed owner: ${formatAddress(collection.revealedOwner)}` : 'Hidden owner: encrypted'}
+          </div>
+          {collection.revealPending && !isCreator ? (
+            <button type="button" className="ghost" onClick={handleReveal} disabled={isRevealing || zamaLoading}>
+              {isRevealing ? 'Revealing...' : 'Finalize reveal'}
+            </button>
+          ) : null}
           {isCreator ? (
             <div className="owner-forms">
               <div className="inline-field">
@@ -235,14 +440,50 @@ export function CollectionCard({ collection, activeAddress, onActionComplete, za
               {decryptedOwner ? (
                 <p className="muted">Decrypted owner: {decryptedOwner}</p>
               ) : null}
+              {!isRevealed ? (
+                <button type="button" className="ghost" onClick={handleReveal} disabled={isRevealing || zamaLoading}>
+                  {isRevealing ? 'Revealing...' : collection.revealPending ? 'Finalize reveal' : 'Reveal publicly'}
+                </button>
+              ) : null}
+              <HiddenOwnerHistoryPanel collection={collection} isCreator />
+              <TreasuryPanel collection={collection} decryptedOwner={decryptedOwner} />
+              <RoyaltyPanel collection={collection} />
+              <ViewersPanel collection={collection} />
+              <CreatorRolePanel collection={collection} />
+              <MintWindowPanel collection={collection} />
+              <AllowlistPanel collection={collection} activeAddress={activeAddress} />
+            </div>
+          ) : canDecrypt ? (
+            <div className="owner-forms">
+              <p className="muted">The creator granted you access to the hidden owner.</p>
+              <button
+                type="button"
+                className="ghost"
+                onClick={handleDecryptHiddenOwner}
+                disabled={isDecrypting || zamaLoading}
+              >
+                {isDecrypting ? 'Decrypting...' : 'Decrypt owner'}
+              </button>
+              {decryptedOwner ? <p className="muted">Decrypted owner: {decryptedOwner}</p> : null}
+              <HiddenOwnerHistoryPanel collection={collection} />
             </div>
           ) : (
             <p className="muted">Only the creator can rotate or decrypt the hidden owner.</p>
           )}
+          {!isCreator && activeAddress ? (
+            <>
+              <button type="button" className="ghost" onClick={() => setShowOwnerActions((value) => !value)}>
+                {showOwnerActions ? 'Hide hidden owner tools' : 'I am the hidden owner'}
+              </button>
+              {showOwnerActions ? (
+                <HiddenOwnerActionsPanel collection={collection} activeAddress={activeAddress} />
+              ) : null}
+            </>
+          ) : null}
         </div>
       </div>
 
-      {status ? <div className="status-banner">{status}</div> : null}
+      <TxStatusLine status={tx.status} className="status-banner" />
     </div>
   );
 }
@@ -1,18 +1,49 @@
-import type { useZamaInstance } from '../hooks/useZamaInstance';
+import { useEffect, useRef } from 'react';
+
+import { useNetwork } from '../hooks/useNetwork';
 import type { Collection } from './NovaMintApp';
 import { CollectionCard } from './CollectionCard';
 
 type Props = {
   collections: Collection[];
   isLoading: boolean;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
   activeAddress?: string;
-  onActionComplete: () => void;
-  zama: ReturnType<typeof useZamaInstance>;
 };
 
-export function CollectionsGrid({ collections, isLoading, activeAddress, onActionComplete, zama }: Props) {
+export function CollectionsGrid({
+  collections,
+  isLoading,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  activeAddress,
+}: Props) {
+  const network = useNetwork();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Fetch the next page as soon as the end of the grid scrolls into view.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoadingMore) {
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, onLoadMore]);
+
   if (isLoading) {
-    return <div className="placeholder">Loading collections from Sepolia...</div>;
+    return <div className="placeholder">Loading collections from {network?.label ?? 'the chain'}...</div>;
   }
 
   if (!collections.length) {
@@ -20,16 +51,19 @@ export function CollectionsGrid({ collections, isLoading, activeAddress, onActio
   }
 
   return (
-    <div className="collection-grid">
-      {collections.map((collection) => (
-        <CollectionCard
-          key={collection.id.toString()}
-          collection={collection}
-          activeAddress={activeAddress}
-          onActionComplete={onActionComplete}
-          zama={zama}
-        />
-      ))}
-    </div>
+    <>
+      <div className="collection-grid">
+        {collections.map((collection) => (
+          <CollectionCard key={collection.id.toString()} collection={collection} activeAddress={activeAddress} />
+        ))}
+      </div>
+      {hasMore ? (
+        <div ref={sentinelRef} className="load-more">
+          <button type="button" className="ghost" onClick={onLoadMore} disabled={isLoadingMore}>
+            {isLoadingMore ? 'Loading more...' : 'Load more'}
+          </button>
+        </div>
+      ) : null}
+    </>
   );
 }
@@ -1,80 +1,112 @@
 import { useState } from 'react';
-import { Contract } from 'ethers';
+import { parseEther } from 'ethers';
+import { toHex } from 'viem';
 import { useAccount } from 'wagmi';
 
-import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
-import { useEthersSigner } from '../hooks/useEthersSigner';
+import { requireContractAddress, useContractAddress } from '../hooks/useContractAddress';
+import { toUnixSeconds } from '../hooks/useMintWindow';
+import { useNetwork } from '../hooks/useNetwork';
+import { useNovaMintTx } from '../hooks/useNovaMintTx';
 import { useZamaInstance } from '../hooks/useZamaInstance';
+import { TxStatusLine } from './TxStatusLine';
 
-type Props = {
-  onCreated: () => void;
-  zama: ReturnType<typeof useZamaInstance>;
-};
-
-export function CreateCollectionForm({ onCreated, zama }: Props) {
+export function CreateCollectionForm() {
   const { address, isConnected } = useAccount();
-  const signerPromise = useEthersSigner();
-  const { instance, isLoading: zamaLoading, error: zamaError } = zama;
+  const contractAddress = useContractAddress();
+  const network = useNetwork();
+  const tx = useNovaMintTx();
+  const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
 
   const [name, setName] = useState('');
   const [supply, setSupply] = useState('');
+  const [maxPerWallet, setMaxPerWallet] = useState('');
+  const [mintPrice, setMintPrice] = useState('');
+  const [mintStart, setMintStart] = useState('');
+  const [mintEnd, setMintEnd] = useState('');
+  const [royalty, setRoyalty] = useState('');
   const [hiddenOwner, setHiddenOwner] = useState('');
-  const [status, setStatus] = useState('');
+  const [description, setDescription] = useState('');
+  const [image, setImage] = useState('');
+  const [baseURI, setBaseURI] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const reset = () => {
     setName('');
     setSupply('');
+    setMaxPerWallet('');
+    setMintPrice('');
+    setMintStart('');
+    setMintEnd('');
+    setRoyalty('');
     setHiddenOwner('');
+    setDescription('');
+    setImage('');
+    setBaseURI('');
   };
 
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
-    setStatus('');
+    tx.reset();
 
     if (!isConnected || !address) {
-      setStatus('Connect your wallet to continue.');
+      tx.fail('Connect your wallet to continue.');
       return;
     }
     if (!instance) {
-      setStatus('Encryption service is still starting.');
+      tx.fail('Encryption service is still starting.');
       return;
     }
     if (!name.trim() || !supply) {
-      setStatus('Please add a collection name and max supply.');
+      tx.fail('Please add a collection name and max supply.');
+      return;
+    }
+    const mintWindow = { start: toUnixSeconds(mintStart), end: toUnixSeconds(mintEnd) };
+    if (mintWindow.end !== 0n && mintWindow.end <= mintWindow.start) {
+      tx.fail('Minting must close after it opens.');
+      return;
+    }
+    const royaltyBps = Math.round(Number(royalty || '0') * 100);
+    if (!Number.isFinite(royaltyBps) || royaltyBps > 10000) {
+      tx.fail('Enter a royalty between 0 and 100%.');
       return;
     }
 
     setIsSubmitting(true);
     try {
-      const signer = await signerPromise;
-      if (!signer) {
-        throw new Error('Wallet signer unavailable.');
-      }
-
       const targetOwner = hiddenOwner.trim() || address;
       const parsedSupply = BigInt(supply);
+      const parsedMaxPerWallet = BigInt(maxPerWallet || '0');
+      const parsedMintPrice = parseEther(mintPrice || '0');
 
-      const input = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
+      tx.report('Encrypting the hidden owner...');
+      const input = instance.createEncryptedInput(requireContractAddress(contractAddress), address);
       input.addAddress(targetOwner);
       const encrypted = await input.encrypt();
 
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.createCollection(
-        name.trim(),
-        parsedSupply,
-        encrypted.handles[0],
-        encrypted.inputProof
-      );
-      setStatus('Submitting transaction...');
-      await tx.wait();
-
-      setStatus('Collection published to Sepolia.');
+      await tx.send({
+        functionName: 'createCollection',
+        args: [
+          name.trim(),
+          {
+            description: description.trim(),
+            image: image.trim(),
+            baseURI: baseURI.trim(),
+          },
+          parsedSupply,
+          parsedMaxPerWallet,
+          parsedMintPrice,
+          mintWindow,
+          BigInt(royaltyBps),
+          toHex(encrypted.handles[0]),
+          toHex(encrypted.inputProof),
+        ],
+        pending: 'Submitting transaction...',
+        confirmed: `Collection published to ${network?.label ?? 'the chain'}.`,
+        effects: { collections: true },
+      });
       reset();
-      onCreated();
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to create collection.';
-      setStatus(message);
+      tx.fail(error, 'Failed to create collection.');
     } finally {
       setIsSubmitting(false);
     }
@@ -102,6 +134,41 @@ export function CreateCollectionForm({ onCreated, zama }: Props) {
             required
           />
         </div>
+        <div className="form-field">
+          <label>Per-wallet limit</label>
+          <input
+            value={maxPerWallet}
+            onChange={(event) => setMaxPerWallet(event.target.value.replace(/[^0-9]/g, ''))}
+            placeholder="Unlimited"
+            inputMode="numeric"
+          />
+        </div>
+        <div className="form-field">
+          <label>Mint price (ETH)</label>
+          <input
+            value={mintPrice}
+            onChange={(event) => setMintPrice(event.target.value.replace(/[^0-9.]/g, ''))}
+            placeholder="Free"
+            inputMode="decimal"
+          />
+        </div>
+        <div className="form-field">
+          <label>Resale royalty (%)</label>
+          <input
+            value={royalty}
+            onChange={(event) => setRoyalty(event.target.value.replace(/[^0-9.]/g, ''))}
+            placeholder="None"
+            inputMode="decimal"
+          />
+        </div>
+        <div className="form-field">
+          <label>Mint opens</label>
+          <input type="datetime-local" value={mintStart} onChange={(event) => setMintStart(event.target.value)} />
+        </div>
+        <div className="form-field">
+          <label>Mint closes</label>
+          <input type="datetime-local" value={mintEnd} onChange={(event) => setMintEnd(event.target.value)} />
+        </div>
         <div className="form-field">
           <label>Hidden owner address</label>
           <input
@@ -110,12 +177,45 @@ export function CreateCollectionForm({ onCreated, zama }: Props) {
             placeholder="Defaults to your connected wallet"
           />
         </div>
+        <div className="form-field">
+          <label>Cover image URL</label>
+          <input
+            value={image}
+            onChange={(event) => setImage(event.target.value)}
+            placeholder="ipfs://... or https://..."
+          />
+        </div>
+        <div className="form-field">
+          <label>Token base URI</label>
+          <input
+            value={baseURI}
+            onChange={(event) => setBaseURI(event.target.value)}
+            placeholder="ipfs://<cid>/ (tokenURI = base URI + token id)"
+          />
+        </div>
+        <div className="form-field wide">
+          <label>Description</label>
+          <textarea
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            placeholder="What collectors should know about this drop"
+            rows={3}
+          />
+        </div>
       </div>
 
       <div className="form-footer">
-        <div className="status-chip">
-          {zamaLoading ? 'Initializing Zama relayer...' : zamaError ? zamaError : status || 'Encrypt the owner address with FHE and publish.'}
-        </div>
+        {zamaLoading || zamaError || !tx.status.message ? (
+          <div className="status-chip">
+            {zamaLoading
+              ? 'Initializing Zama relayer...'
+              : zamaError
+                ? zamaError
+                : 'Encrypt the owner address with FHE and publish.'}
+          </div>
+        ) : (
+          <TxStatusLine status={tx.status} className="status-chip" />
+        )}
         <button type="submit" disabled={isSubmitting || zamaLoading || !isConnected}>
           {isSubmitting ? 'Creating...' : 'Create collection'}
         </button>
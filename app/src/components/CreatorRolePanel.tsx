@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { ZeroAddress, isAddress } from 'ethers';
+
+import { useNovaMintTx } from '../hooks/useNovaMintTx';
+import type { Collection } from './NovaMintApp';
+import { TxStatusLine } from './TxStatusLine';
+
+type Props = {
+  collection: Collection;
+};
+
+function formatAddress(address?: string) {
+  if (!address) return '';
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export function CreatorRolePanel({ collection }: Props) {
+  const tx = useNovaMintTx();
+
+  const [newCreator, setNewCreator] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const hasPendingTransfer = collection.pendingCreator !== ZeroAddress;
+
+  const sendRoleUpdate = async (action: 'transfer' | 'cancel' | 'renounce') => {
+    tx.reset();
+    if (action === 'transfer' && !isAddress(newCreator.trim())) {
+      tx.fail('Enter the address of the new creator.');
+      return;
+    }
+    if (
+      action === 'renounce' &&
+      !window.confirm('Renouncing is permanent. Only the hidden owner will be able to manage this collection.')
+    ) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await tx.send({
+        functionName: action === 'renounce' ? 'renounceCreator' : 'transferCreator',
+        args:
+          action === 'renounce'
+            ? [collection.id]
+            : [collection.id, (action === 'transfer' ? newCreator.trim() : ZeroAddress) as `0x${string}`],
+        pending:
+          action === 'transfer'
+            ? 'Offering the creator role...'
+            : action === 'cancel'
+              ? 'Cancelling the transfer...'
+              : 'Renouncing the creator role...',
+        confirmed:
+          action === 'transfer'
+            ? 'Transfer started. The new creator must accept it.'
+            : action === 'cancel'
+              ? 'Transfer cancelled.'
+              : 'Creator role renounced.',
+        // Renouncing moves the collection out of "My collections".
+        effects: { collectionId: collection.id, collections: action === 'renounce' },
+      });
+      setNewCreator('');
+    } catch (error) {
+      tx.fail(error, 'Failed to update the creator role.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="creator-role-panel">
+      <div className="subpanel-header">
+        <p className="stat-label">Creator role</p>
+        {hasPendingTransfer ? <span className="pill">Pending: {formatAddress(collection.pendingCreator)}</span> : null}
+      </div>
+      {hasPendingTransfer ? (
+        <button type="button" className="ghost" onClick={() => sendRoleUpdate('cancel')} disabled={isSubmitting}>
+          Cancel transfer
+        </button>
+      ) : (
+        <div className="inline-field">
+          <input
+            value={newCreator}
+            onChange={(event) => setNewCreator(event.target.value)}
+            placeholder="New creator or multisig address"
+          />
+          <button type="button" onClick={() => sendRoleUpdate('transfer')} disabled={isSubmitting}>
+            Transfer
+          </button>
+        </div>
+      )}
+      <button type="button" className="ghost" onClick={() => sendRoleUpdate('renounce')} disabled={isSubmitting}>
+        Renounce creator role
+      </button>
+      <TxStatusLine status={tx.status} />
+    </div>
+  );
+}
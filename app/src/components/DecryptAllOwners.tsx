@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { useConfig } from 'wagmi';
+import { readContract } from 'wagmi/actions';
+
+import { CONTRACT_ABI } from '../config/contracts';
+import { requireContractAddress, useContractAddress } from '../hooks/useContractAddress';
+import { useUserDecrypt } from '../hooks/useUserDecrypt';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { describeTxError } from '../tx/errors';
+
+type Props = {
+  activeAddress: `0x${string}`;
+};
+
+/** Collections read per `getCollectionsByCreator` call, so a prolific creator never hits the RPC's gas cap. */
+const PAGE_SIZE = 50n;
+
+/**
+ * Decrypts the hidden owner of every collection the wallet created with a single signature; each card then shows its
+ * owner from the shared decryption cache.
+ */
+export function DecryptAllOwners({ activeAddress }: Props) {
+  const config = useConfig();
+  const contractAddress = useContractAddress();
+  const { isLoading: zamaLoading } = useZamaInstance();
+  const { decrypt } = useUserDecrypt();
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const handleDecryptAll = async () => {
+    setStatus('');
+    setIsDecrypting(true);
+    try {
+      const address = requireContractAddress(contractAddress);
+      const total = await readContract(config, {
+        address,
+        abi: CONTRACT_ABI,
+        functionName: 'totalCollectionsByCreator',
+        args: [activeAddress],
+      });
+      if (total === 0n) {
+        setStatus('You have not created any collections yet.');
+        return;
+      }
+      const hiddenOwners: string[] = [];
+      for (let offset = 0n; offset < total; offset += PAGE_SIZE) {
+        const page = await readContract(config, {
+          address,
+          abi: CONTRACT_ABI,
+          functionName: 'getCollectionsByCreator',
+          args: [activeAddress, offset, PAGE_SIZE],
+        });
+        hiddenOwners.push(...page.map((collection) => collection.hiddenOwner));
+      }
+
+      setStatus(`Decrypting ${hiddenOwners.length} hidden owner(s)...`);
+      await decrypt(hiddenOwners);
+      setStatus(`Decrypted ${hiddenOwners.length} hidden owner(s). They are shown on each collection card.`);
+    } catch (error) {
+      setStatus(describeTxError(error, 'Failed to decrypt the hidden owners.'));
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  return (
+    <div className="decrypt-all">
+      <button type="button" className="ghost" onClick={handleDecryptAll} disabled={isDecrypting || zamaLoading}>
+        {isDecrypting ? 'Decrypting...' : 'Decrypt all my hidden owners'}
+      </button>
+      {status ? <p className="muted">{status}</p> : null}
+    </div>
+  );
+}
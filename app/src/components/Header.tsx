@@ -1,5 +1,6 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '../styles/NovaMintApp.css';
+import { NetworkSwitcher } from './NetworkSwitcher';
 
 export function Header() {
   return (
@@ -12,8 +13,8 @@ export function Header() {
         </div>
       </div>
       <div className="nav-actions">
-        <span className="network-pill">Sepolia</span>
-        <ConnectButton />
+        <NetworkSwitcher />
+        <ConnectButton chainStatus="none" />
       </div>
     </header>
   );
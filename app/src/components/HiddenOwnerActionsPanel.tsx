@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { isAddress, parseEther } from 'ethers';
+import { toHex } from 'viem';
+
+import { requireContractAddress, useContractAddress } from '../hooks/useContractAddress';
+import { useNovaMintTx } from '../hooks/useNovaMintTx';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { findEvent } from '../tx/events';
+import type { Collection } from './NovaMintApp';
+import { TxStatusLine } from './TxStatusLine';
+
+type Props = {
+  collection: Collection;
+  activeAddress?: string;
+};
+
+// Mirrors NovaMint.OwnerActionKind.
+const ACTIONS = [
+  { kind: 0, label: 'Rotate hidden owner', placeholder: 'New hidden owner address' },
+  { kind: 1, label: 'Withdraw proceeds to me', placeholder: '' },
+  { kind: 2, label: 'Set mint price', placeholder: 'Price in ETH' },
+  { kind: 3, label: 'Toggle allowlist', placeholder: '' },
+] as const;
+
+export function HiddenOwnerActionsPanel({ collection, activeAddress }: Props) {
+  const contractAddress = useContractAddress();
+  const { instance, isLoading: zamaLoading } = useZamaInstance();
+  const tx = useNovaMintTx();
+
+  const [kind, setKind] = useState(1);
+  const [input, setInput] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const action = ACTIONS[kind];
+
+  const requestAction = async () => {
+    const request = {
+      pending: 'Checking your wallet against the encrypted hidden owner...',
+      effects: { collectionId: collection.id },
+    };
+    if (kind === 0) {
+      if (!instance || !activeAddress) {
+        throw new Error('Encryption service is not ready.');
+      }
+      if (!isAddress(input.trim())) {
+        throw new Error('Enter the new hidden owner address.');
+      }
+      const encryptedInput = instance.createEncryptedInput(requireContractAddress(contractAddress), activeAddress);
+      encryptedInput.addAddress(input.trim());
+      const encrypted = await encryptedInput.encrypt();
+      return tx.send({
+        functionName: 'requestHiddenOwnerRotation',
+        args: [collection.id, toHex(encrypted.handles[0]), toHex(encrypted.inputProof)],
+        ...request,
+      });
+    }
+
+    const value = kind === 2 ? parseEther(input || '0') : kind === 3 ? (collection.allowlistEnabled ? 0n : 1n) : 0n;
+    return tx.send({ functionName: 'requestOwnerAction', args: [collection.id, kind, value], ...request });
+  };
+
+  const handleSubmit = async () => {
+    tx.reset();
+    if (!instance) {
+      tx.fail('Encryption service is not ready.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const receipt = await requestAction();
+      const requested = findEvent(receipt, requireContractAddress(contractAddress), 'OwnerActionRequested');
+      if (!requested) {
+        throw new Error('Hidden owner action was not recorded.');
+      }
+
+      const { actionId, authorized } = requested.args;
+      tx.report('Waiting for the authorization decryption...');
+      const decryption = await instance.publicDecrypt([authorized]);
+
+      await tx.send({
+        functionName: 'finalizeOwnerAction',
+        args: [actionId, decryption.abiEncodedClearValues, decryption.decryptionProof],
+        pending: 'Finalizing action...',
+        confirmed: decryption.clearValues[authorized]
+          ? `${action.label} completed as hidden owner.`
+          : 'This wallet is not the hidden owner, so nothing changed.',
+        effects: { collectionId: collection.id },
+      });
+      setInput('');
+    } catch (error) {
+      tx.fail(error, 'Hidden owner action failed.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="owner-actions-panel">
+      <div className="subpanel-header">
+        <p className="stat-label">Act as hidden owner</p>
+      </div>
+      <div className="inline-field">
+        <select value={kind} onChange={(event) => setKind(Number(event.target.value))}>
+          {ACTIONS.map((option) => (
+            <option key={option.kind} value={option.kind}>
+              {option.kind === 3
+                ? collection.allowlistEnabled
+                  ? 'Open public mint'
+                  : 'Require allowlist'
+                : option.label}
+            </option>
+          ))}
+        </select>
+        {action.placeholder ? (
+          <input value={input} onChange={(event) => setInput(event.target.value)} placeholder={action.placeholder} />
+        ) : null}
+        <button type="button" onClick={handleSubmit} disabled={isSubmitting || zamaLoading}>
+          {isSubmitting ? 'Submitting...' : 'Submit'}
+        </button>
+      </div>
+      <p className="muted">
+        Your wallet is compared with the encrypted owner on-chain. The result of that check becomes public.
+      </p>
+      <TxStatusLine status={tx.status} />
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { useReadContract } from 'wagmi';
+
+import { CONTRACT_ABI } from '../config/contracts';
+import { useContractAddress } from '../hooks/useContractAddress';
+import { useNovaMintTx } from '../hooks/useNovaMintTx';
+import { useUserDecrypt } from '../hooks/useUserDecrypt';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import type { Collection } from './NovaMintApp';
+import { TxStatusLine } from './TxStatusLine';
+
+type Props = {
+  collection: Collection;
+  /** Shows the button that grants the creator the listed entries, for history recorded before they took over. */
+  isCreator?: boolean;
+};
+
+type HiddenOwnerRecord = {
+  hiddenOwner: `0x${string}`;
+  timestamp: bigint;
+};
+
+const PAGE_SIZE = 5n;
+
+function formatTimestamp(timestamp: bigint) {
+  return new Date(Number(timestamp) * 1000).toLocaleString();
+}
+
+/**
+ * Timeline of every hidden owner the collection has had, newest first. Each entry is decrypted on demand; old entries
+ * open for wallets that were creator or viewer when that owner was set, and for a later creator once it grants itself
+ * the listed page with `grantHiddenOwnerHistory`.
+ */
+export function HiddenOwnerHistoryPanel({ collection, isCreator = false }: Props) {
+  const contractAddress = useContractAddress();
+  const { isLoading: zamaLoading } = useZamaInstance();
+  const { decrypt, valueOf } = useUserDecrypt();
+  const tx = useNovaMintTx();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [visible, setVisible] = useState(PAGE_SIZE);
+  const [decryptingHandle, setDecryptingHandle] = useState<string | null>(null);
+  const [isGranting, setIsGranting] = useState(false);
+
+  const { data: totalData } = useReadContract({
+    address: contractAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'totalHiddenOwnerHistory',
+    args: [collection.id],
+    query: { enabled: isOpen },
+  });
+  const total = (totalData as bigint | undefined) ?? 0n;
+  // Pages are read from the end so the latest owners load first.
+  const offset = total > visible ? total - visible : 0n;
+
+  const { data, isLoading } = useReadContract({
+    address: contractAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'getHiddenOwnerHistory',
+    args: [collection.id, offset, visible],
+    query: { enabled: isOpen && total > 0n },
+  });
+  const records = [...((data as readonly HiddenOwnerRecord[] | undefined) ?? [])].reverse();
+
+  const handleDecrypt = async (handle: string) => {
+    tx.reset();
+    setDecryptingHandle(handle);
+    try {
+      await decrypt([handle]);
+    } catch (error) {
+      tx.fail(error, 'Failed to decrypt this owner.');
+    } finally {
+      setDecryptingHandle(null);
+    }
+  };
+
+  const handleGrant = async () => {
+    tx.reset();
+    setIsGranting(true);
+    try {
+      await tx.send({
+        functionName: 'grantHiddenOwnerHistory',
+        args: [collection.id, offset, visible],
+        pending: 'Granting you the listed owners...',
+        confirmed: 'You can now decrypt the listed owners.',
+      });
+    } catch (error) {
+      tx.fail(error, 'Failed to grant access to the owner history.');
+    } finally {
+      setIsGranting(false);
+    }
+  };
+
+  return (
+    <div className="owner-history">
+      <div className="subpanel-header">
+        <p className="stat-label">Owner history</p>
+        <button type="button" className="ghost" onClick={() => setIsOpen((value) => !value)}>
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+      </div>
+      {isOpen ? (
+        <>
+          {isLoading ? <p className="muted">Loading owner history...</p> : null}
+          <ol className="owner-timeline">
+            {records.map((record, index) => {
+              const position = total - offset - BigInt(index);
+              const owner = valueOf(record.hiddenOwner) as string | undefined;
+              return (
+                <li key={record.hiddenOwner}>
+                  <p>
+                    <span className="pill">#{position.toString()}</span>{' '}
+                    {position === 1n ? 'Set at creation' : 'Rotated'} · {formatTimestamp(record.timestamp)}
+                    {position === total ? ' · current' : ''}
+                  </p>
+                  {owner ? (
+                    <p className="muted">{owner}</p>
+                  ) : (
+                    <button
+                      type="button"
+                      className="ghost"
+                      onClick={() => handleDecrypt(record.hiddenOwner)}
+                      disabled={decryptingHandle !== null || zamaLoading}
+                    >
+                      {decryptingHandle === record.hiddenOwner ? 'Decrypting...' : 'Decrypt'}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+          {offset > 0n ? (
+            <button type="button" className="ghost" onClick={() => setVisible((value) => value + PAGE_SIZE)}>
+              Show older ({offset.toString()} more)
+            </button>
+          ) : null}
+          {isCreator && records.length ? (
+            <button type="button" className="ghost" onClick={handleGrant} disabled={isGranting || tx.isBusy}>
+              {isGranting ? 'Granting...' : 'Grant me access to these owners'}
+            </button>
+          ) : null}
+          <TxStatusLine status={tx.status} />
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+
+import { useNovaMintTx } from '../hooks/useNovaMintTx';
+import { toDatetimeLocal, toUnixSeconds } from '../hooks/useMintWindow';
+import type { Collection } from './NovaMintApp';
+import { TxStatusLine } from './TxStatusLine';
+
+type Props = {
+  collection: Collection;
+};
+
+export function MintWindowPanel({ collection }: Props) {
+  const tx = useNovaMintTx();
+
+  const [mintStart, setMintStart] = useState(() => toDatetimeLocal(collection.mintStart));
+  const [mintEnd, setMintEnd] = useState(() => toDatetimeLocal(collection.mintEnd));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const sendUpdate = async (action: 'schedule' | 'pause' | 'unpause') => {
+    tx.reset();
+    const start = toUnixSeconds(mintStart);
+    const end = toUnixSeconds(mintEnd);
+    if (action === 'schedule' && end !== 0n && end <= start) {
+      tx.fail('Minting must close after it opens.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await tx.send({
+        functionName: action === 'schedule' ? 'setMintWindow' : action,
+        args: action === 'schedule' ? [collection.id, { start, end }] : [collection.id],
+        pending:
+          action === 'schedule'
+            ? 'Updating the mint window...'
+            : action === 'pause'
+              ? 'Pausing minting...'
+              : 'Resuming minting...',
+        confirmed:
+          action === 'schedule' ? 'Mint window updated.' : action === 'pause' ? 'Minting paused.' : 'Minting resumed.',
+        effects: { collectionId: collection.id },
+      });
+    } catch (error) {
+      tx.fail(error, 'Failed to update minting.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mint-window-panel">
+      <div className="subpanel-header">
+        <p className="stat-label">Mint window</p>
+        {collection.paused ? <span className="pill">Paused</span> : null}
+      </div>
+      <div className="inline-field">
+        <input
+          type="datetime-local"
+          value={mintStart}
+          onChange={(event) => setMintStart(event.target.value)}
+          aria-label="Mint opens"
+        />
+        <input
+          type="datetime-local"
+          value={mintEnd}
+          onChange={(event) => setMintEnd(event.target.value)}
+          aria-label="Mint closes"
+        />
+        <button type="button" onClick={() => sendUpdate('schedule')} disabled={isSubmitting}>
+          Save
+        </button>
+      </div>
+      <p className="muted">Leave a field empty to open immediately or never close.</p>
+      <button
+        type="button"
+        className="ghost"
+        onClick={() => sendUpdate(collection.paused ? 'unpause' : 'pause')}
+        disabled={isSubmitting}
+      >
+        {collection.paused ? 'Resume minting' : 'Pause minting'}
+      </button>
+      <TxStatusLine status={tx.status} />
+    </div>
+  );
+}
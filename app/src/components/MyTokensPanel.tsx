@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { isAddress } from 'ethers';
+
+import { useNovaMintTx } from '../hooks/useNovaMintTx';
+import { useOwnedTokens } from '../hooks/useOwnedTokens';
+import { resolveMediaUri } from '../hooks/useTokenMetadata';
+import { TxStatusLine } from './TxStatusLine';
+
+type Props = {
+  activeAddress?: `0x${string}`;
+  poll: boolean;
+};
+
+function formatAddress(address?: string) {
+  if (!address) return '';
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export function MyTokensPanel({ activeAddress, poll }: Props) {
+  const { groups, balance, isLoading } = useOwnedTokens(activeAddress, poll);
+  const tx = useNovaMintTx();
+
+  const [selectedToken, setSelectedToken] = useState<bigint | null>(null);
+  const [recipient, setRecipient] = useState('');
+  const [pendingToken, setPendingToken] = useState<bigint | null>(null);
+
+  const selectToken = (tokenId: bigint) => {
+    setSelectedToken(selectedToken === tokenId ? null : tokenId);
+    setRecipient('');
+    tx.reset();
+  };
+
+  const handleTransfer = async (tokenId: bigint) => {
+    const to = recipient.trim();
+    if (!activeAddress) {
+      tx.fail('Connect your wallet to continue.');
+      return;
+    }
+    if (!isAddress(to)) {
+      tx.fail('Enter a valid recipient address.');
+      return;
+    }
+
+    tx.reset();
+    setPendingToken(tokenId);
+    try {
+      await tx.send({
+        functionName: 'safeTransferFrom',
+        args: [activeAddress, to as `0x${string}`, tokenId],
+        pending: `Transferring token #${tokenId.toString()}...`,
+        confirmed: `Token #${tokenId.toString()} sent to ${formatAddress(to)}.`,
+        effects: { tokens: true },
+      });
+      setSelectedToken(null);
+      setRecipient('');
+    } catch (error) {
+      tx.fail(error, 'Failed to transfer the token.');
+    } finally {
+      setPendingToken(null);
+    }
+  };
+
+  if (!activeAddress) {
+    return <div className="placeholder">Connect your wallet to see the tokens you hold.</div>;
+  }
+  if (balance === 0n) {
+    return <div className="placeholder">You don't hold any NovaMint tokens yet. Mint one from a live drop.</div>;
+  }
+  if (isLoading || !groups.length) {
+    return <div className="placeholder">Loading your tokens...</div>;
+  }
+
+  return (
+    <div className="my-tokens">
+      <TxStatusLine status={tx.status} className="status-banner" />
+      <div className="collection-grid">
+        {groups.map(({ collection, tokenIds }) => (
+          <div key={collection.id.toString()} className="collection-card">
+            {collection.image ? (
+              <img className="collection-art" src={resolveMediaUri(collection.image)} alt={collection.name} />
+            ) : null}
+            <div className="card-header">
+              <div>
+                <p className="eyebrow">Collection #{collection.id.toString()}</p>
+                <h3>{collection.name}</h3>
+              </div>
+              <span className="pill">{tokenIds.length} owned</span>
+            </div>
+            <ul className="owned-token-list">
+              {tokenIds.map((tokenId) => (
+                <li key={tokenId.toString()}>
+                  <div className="owned-token-row">
+                    <span className="pill">
+                      #{tokenId.toString()} · Edition {(tokenId - collection.baseTokenId + 1n).toString()}
+                    </span>
+                    <button
+                      type="button"
+                      className="ghost"
+                      onClick={() => selectToken(tokenId)}
+                      disabled={pendingToken !== null}
+                    >
+                      {selectedToken === tokenId ? 'Cancel' : 'Transfer'}
+                    </button>
+                  </div>
+                  {selectedToken === tokenId ? (
+                    <div className="inline-field">
+                      <input
+                        value={recipient}
+                        onChange={(event) => setRecipient(event.target.value)}
+                        placeholder="Recipient address"
+                      />
+                      <button type="button" onClick={() => handleTransfer(tokenId)} disabled={pendingToken !== null}>
+                        {pendingToken === tokenId ? 'Sending...' : 'Send'}
+                      </button>
+                    </div>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { useChainId, useSwitchChain } from 'wagmi';
+
+import { NETWORKS, getNetwork } from '../config/networks';
+
+/**
+ * Switches the wallet between the configured networks. Without a wallet it only changes the chain the app reads.
+ */
+export function NetworkSwitcher() {
+  const chainId = useChainId();
+  const { switchChain, isPending } = useSwitchChain();
+  const network = getNetwork(chainId);
+
+  return (
+    <select
+      className={network ? 'network-pill' : 'network-pill unsupported'}
+      aria-label="Network"
+      value={chainId}
+      disabled={isPending}
+      onChange={(event) => switchChain({ chainId: Number(event.target.value) })}
+    >
+      {!network ? <option value={chainId}>Unsupported network</option> : null}
+      {NETWORKS.map(({ chain, label }) => (
+        <option key={chain.id} value={chain.id}>
+          {label}
+        </option>
+      ))}
+    </select>
+  );
+}
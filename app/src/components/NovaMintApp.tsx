@@ -1,21 +1,43 @@
-import { useMemo } from 'react';
-import { useAccount, useReadContract } from 'wagmi';
+import { useState } from 'react';
+import { useAccount, useChainId } from 'wagmi';
 
-import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
 import '../styles/NovaMintApp.css';
+import { AnalyticsDashboard } from './AnalyticsDashboard';
 import { CollectionsGrid } from './CollectionsGrid';
 import { CreateCollectionForm } from './CreateCollectionForm';
+import { DecryptAllOwners } from './DecryptAllOwners';
 import { Header } from './Header';
-import { useZamaInstance } from '../hooks/useZamaInstance';
+import { MyTokensPanel } from './MyTokensPanel';
+import { RefundsPanel } from './RefundsPanel';
+import { TxTray } from './TxTray';
+import { ZamaStatusBanner } from './ZamaStatusBanner';
+import { useCollections } from '../hooks/useCollections';
+import { useContractAddress } from '../hooks/useContractAddress';
+import { useIndexerFeed } from '../hooks/useIndexerFeed';
 
 export type Collection = {
   id: bigint;
   name: string;
+  description: string;
+  image: string;
+  baseURI: string;
   maxSupply: bigint;
+  maxPerWallet: bigint;
+  mintPrice: bigint;
+  balance: bigint;
   minted: bigint;
   creator: `0x${string}`;
+  pendingCreator: `0x${string}`;
   baseTokenId: bigint;
+  mintStart: bigint;
+  mintEnd: bigint;
+  royaltyBps: bigint;
+  royaltyReceiver: `0x${string}`;
   hiddenOwner: `0x${string}`;
+  revealedOwner: `0x${string}`;
+  revealPending: boolean;
+  allowlistEnabled: boolean;
+  paused: boolean;
 };
 
 function toNumber(value: bigint) {
@@ -24,53 +46,35 @@ function toNumber(value: bigint) {
 
 export function NovaMintApp() {
   const { address, isConnected } = useAccount();
-  const zama = useZamaInstance();
+  const chainId = useChainId();
+  const contractAddress = useContractAddress();
 
-  const { data, isLoading, isRefetching, refetch } = useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: CONTRACT_ABI,
-    functionName: 'getAllCollections',
-    query: {
-      refetchInterval: 12000,
-    },
-  });
-
-  const collections = useMemo<Collection[]>(() => {
-    if (!data) {
-      return [];
-    }
-    return (data as any[]).map((item) => ({
-      id: item.id as bigint,
-      name: item.name as string,
-      maxSupply: item.maxSupply as bigint,
-      minted: item.minted as bigint,
-      creator: item.creator as `0x${string}`,
-      baseTokenId: item.baseTokenId as bigint,
-      hiddenOwner: item.hiddenOwner as `0x${string}`,
-    }));
-  }, [data]);
+  const [showMine, setShowMine] = useState(false);
+  const creatorFilter = showMine && address ? address : undefined;
+  const isIndexerLive = useIndexerFeed();
+  const { collections, total, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useCollections(
+    creatorFilter,
+    !isIndexerLive
+  );
 
   const totalMinted = collections.reduce((acc, collection) => acc + collection.minted, 0n);
   const totalSupply = collections.reduce((acc, collection) => acc + collection.maxSupply, 0n);
   const fillRate =
     totalSupply > 0n ? Math.min(100, Number((totalMinted * 10000n) / totalSupply) / 100) : 0;
 
-  const handleRefresh = async () => {
-    await refetch();
-  };
-
   return (
     <div className="nova-shell">
       <div className="gradient-bg" />
       <Header />
       <main className="content">
+        <ZamaStatusBanner />
         <section className="hero">
           <div className="hero-copy">
             <p className="eyebrow">Confidential minting</p>
             <h1>Launch NFTs with hidden owners and transparent supply.</h1>
             <p className="lede">
               NovaMint encrypts collection owner addresses with Zama FHE. Creators stay private while
-              collectors can mint openly on Sepolia.
+              collectors can mint openly on-chain.
             </p>
             <div className="hero-actions">
               <a className="primary-link" href="#create">
@@ -79,15 +83,24 @@ export function NovaMintApp() {
               <a className="secondary-link" href="#collections">
                 Browse live drops
               </a>
+              <a className="secondary-link" href="#my-nfts">
+                My NFTs
+              </a>
+              <a className="secondary-link" href="#analytics">
+                Analytics
+              </a>
             </div>
             {!isConnected ? (
               <p className="status-note">Connect your wallet to create or mint.</p>
             ) : null}
+            {!contractAddress ? (
+              <p className="status-note">NovaMint is not deployed on chain {chainId}. Switch to a supported network.</p>
+            ) : null}
           </div>
           <div className="hero-stats">
             <div className="stat-card">
               <p className="stat-label">Collections</p>
-              <p className="stat-value">{collections.length}</p>
+              <p className="stat-value">{(total ?? BigInt(collections.length)).toString()}</p>
               <p className="stat-caption">Encrypted owners on-chain</p>
             </div>
             <div className="stat-card">
@@ -98,7 +111,7 @@ export function NovaMintApp() {
               <div className="progress-track">
                 <div className="progress-fill" style={{ width: `${fillRate}%` }} />
               </div>
-              <p className="stat-caption">Live utilization across all drops</p>
+              <p className="stat-caption">Live utilization across loaded drops</p>
             </div>
             <div className="stat-card">
               <p className="stat-label">Mint limit</p>
@@ -119,7 +132,7 @@ export function NovaMintApp() {
               </p>
             </div>
           </div>
-          <CreateCollectionForm onCreated={handleRefresh} zama={zama} />
+          <CreateCollectionForm />
         </section>
 
         <section id="collections" className="panel">
@@ -131,16 +144,58 @@ export function NovaMintApp() {
                 Everyone can mint until supply is exhausted. Only creators can rotate or decrypt the hidden owner.
               </p>
             </div>
+            {isConnected && address ? (
+              <div className="panel-tools">
+                <div className="filter-toggle">
+                  <button type="button" className={showMine ? 'ghost' : ''} onClick={() => setShowMine(false)}>
+                    All drops
+                  </button>
+                  <button type="button" className={showMine ? '' : 'ghost'} onClick={() => setShowMine(true)}>
+                    My collections
+                  </button>
+                </div>
+                <DecryptAllOwners activeAddress={address} />
+              </div>
+            ) : null}
           </div>
           <CollectionsGrid
             activeAddress={address}
             collections={collections}
-            isLoading={isLoading || isRefetching}
-            onActionComplete={handleRefresh}
-            zama={zama}
+            isLoading={isLoading}
+            hasMore={Boolean(hasNextPage)}
+            isLoadingMore={isFetchingNextPage}
+            onLoadMore={() => fetchNextPage()}
           />
         </section>
+
+        <section id="my-nfts" className="panel">
+          <div className="panel-header">
+            <div>
+              <p className="eyebrow">Wallet</p>
+              <h2>My NFTs</h2>
+              <p className="lede">
+                Every NovaMint token held by the connected wallet, grouped by collection and ready to transfer.
+              </p>
+            </div>
+            {address ? <RefundsPanel activeAddress={address} /> : null}
+          </div>
+          <MyTokensPanel activeAddress={address} poll={!isIndexerLive} />
+        </section>
+
+        <section id="analytics" className="panel">
+          <div className="panel-header">
+            <div>
+              <p className="eyebrow">Analytics</p>
+              <h2>How the drops performed</h2>
+              <p className="lede">
+                Mint velocity, holders and sell-through, computed from the indexed Minted and Transfer history.
+              </p>
+            </div>
+          </div>
+          <AnalyticsDashboard activeAddress={address} />
+        </section>
       </main>
+      <TxTray />
     </div>
   );
 }
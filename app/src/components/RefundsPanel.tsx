@@ -0,0 +1,58 @@
+import { formatEther } from 'ethers';
+import { useReadContract } from 'wagmi';
+
+import { CONTRACT_ABI } from '../config/contracts';
+import { useContractAddress } from '../hooks/useContractAddress';
+import { useNovaMintTx } from '../hooks/useNovaMintTx';
+import { TxStatusLine } from './TxStatusLine';
+
+type Props = {
+  activeAddress: `0x${string}`;
+};
+
+/** Allowlist payments credited back after a rejected or cancelled mint; the wallet pulls them in one transaction. */
+export function RefundsPanel({ activeAddress }: Props) {
+  const contractAddress = useContractAddress();
+  const tx = useNovaMintTx();
+
+  const { data } = useReadContract({
+    address: contractAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'refundOf',
+    args: [activeAddress],
+  });
+  const refund = (data as bigint | undefined) ?? 0n;
+
+  const handleWithdraw = async () => {
+    tx.reset();
+    try {
+      await tx.send({
+        functionName: 'withdrawRefund',
+        args: [],
+        pending: 'Withdrawing your refund...',
+        confirmed: `${formatEther(refund)} ETH refunded to your wallet.`,
+        effects: { refunds: true },
+      });
+    } catch (error) {
+      tx.fail(error, 'Failed to withdraw the refund.');
+    }
+  };
+
+  if (refund === 0n && !tx.status.message) {
+    return null;
+  }
+
+  return (
+    <div className="refunds-panel">
+      {refund > 0n ? (
+        <>
+          <p className="muted">{formatEther(refund)} ETH from rejected or expired allowlist mints is waiting for you.</p>
+          <button type="button" className="ghost" onClick={handleWithdraw} disabled={tx.isBusy}>
+            {tx.isBusy ? 'Withdrawing...' : 'Withdraw refund'}
+          </button>
+        </>
+      ) : null}
+      <TxStatusLine status={tx.status} />
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState } from 'react';
+
+import { useNovaMintTx } from '../hooks/useNovaMintTx';
+import type { Collection } from './NovaMintApp';
+import { TxStatusLine } from './TxStatusLine';
+
+type Props = {
+  collection: Collection;
+};
+
+function formatRoyalty(royaltyBps: bigint) {
+  return `${Number(royaltyBps) / 100}%`;
+}
+
+export function RoyaltyPanel({ collection }: Props) {
+  const tx = useNovaMintTx();
+
+  const [royalty, setRoyalty] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleUpdate = async () => {
+    tx.reset();
+    const royaltyBps = Math.round(Number(royalty || '0') * 100);
+    if (!Number.isFinite(royaltyBps) || royaltyBps < 0 || royaltyBps > 10000) {
+      tx.fail('Enter a royalty between 0 and 100%.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await tx.send({
+        functionName: 'setRoyalty',
+        args: [collection.id, BigInt(royaltyBps)],
+        pending: 'Updating the royalty...',
+        confirmed: `Royalty set to ${formatRoyalty(BigInt(royaltyBps))}.`,
+        effects: { collectionId: collection.id },
+      });
+      setRoyalty('');
+    } catch (error) {
+      tx.fail(error, 'Failed to update the royalty.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="royalty-panel">
+      <div className="subpanel-header">
+        <p className="stat-label">Resale royalty</p>
+        <span className="pill">{formatRoyalty(collection.royaltyBps)}</span>
+      </div>
+      <div className="inline-field">
+        <input
+          value={royalty}
+          onChange={(event) => setRoyalty(event.target.value.replace(/[^0-9.]/g, ''))}
+          placeholder="Royalty %"
+          inputMode="decimal"
+        />
+        <button type="button" onClick={handleUpdate} disabled={isSubmitting}>
+          {isSubmitting ? 'Updating...' : 'Update'}
+        </button>
+      </div>
+      <p className="muted">
+        Marketplaces pay royalties to the collection's receiver contract; anyone can sweep them into the proceeds above
+        with <code>task:sweep-royalties</code>.
+      </p>
+      <TxStatusLine status={tx.status} />
+    </div>
+  );
+}
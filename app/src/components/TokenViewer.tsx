@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { useReadContract } from 'wagmi';
+
+import { CONTRACT_ABI } from '../config/contracts';
+import { useContractAddress } from '../hooks/useContractAddress';
+import { resolveMediaUri, useTokenMetadata } from '../hooks/useTokenMetadata';
+import type { Collection } from './NovaMintApp';
+
+type Props = {
+  collection: Collection;
+};
+
+function formatAddress(address?: string) {
+  if (!address) return '';
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export function TokenViewer({ collection }: Props) {
+  const contractAddress = useContractAddress();
+  const [edition, setEdition] = useState('1');
+
+  const parsedEdition = BigInt(edition || '0');
+  const isValidEdition = parsedEdition >= 1n && parsedEdition <= collection.minted;
+  const tokenId = collection.baseTokenId + parsedEdition - 1n;
+
+  const { data: tokenUri, error: tokenUriError } = useReadContract({
+    address: contractAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'tokenURI',
+    args: [tokenId],
+    query: { enabled: isValidEdition },
+  });
+
+  const { data: owner } = useReadContract({
+    address: contractAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'ownerOf',
+    args: [tokenId],
+    query: { enabled: isValidEdition },
+  });
+
+  const uri = typeof tokenUri === 'string' && tokenUri.length ? tokenUri : undefined;
+  const { data: metadata, isLoading: metadataLoading, error: metadataError } = useTokenMetadata(uri);
+
+  if (collection.minted === 0n) {
+    return <p className="muted">No tokens minted yet.</p>;
+  }
+
+  return (
+    <div className="token-viewer">
+      <div className="inline-field">
+        <label className="muted" htmlFor={`edition-${collection.id}`}>
+          Edition
+        </label>
+        <input
+          id={`edition-${collection.id}`}
+          value={edition}
+          onChange={(event) => setEdition(event.target.value.replace(/[^0-9]/g, ''))}
+          inputMode="numeric"
+        />
+        <span className="muted">of {collection.minted.toString()}</span>
+      </div>
+
+      {!isValidEdition ? (
+        <p className="muted">Pick an edition between 1 and {collection.minted.toString()}.</p>
+      ) : (
+        <div className="token-details">
+          {metadata?.image ? (
+            <img className="token-image" src={resolveMediaUri(metadata.image)} alt={metadata.name ?? 'Token artwork'} />
+          ) : null}
+          <div>
+            <p className="token-title">{metadata?.name ?? `${collection.name} #${tokenId.toString()}`}</p>
+            <p className="muted">
+              Token #{tokenId.toString()} · Owner <span className="pill">{formatAddress(owner as string | undefined)}</span>
+            </p>
+            {metadata?.description ? <p className="muted">{metadata.description}</p> : null}
+            {metadata?.attributes?.length ? (
+              <div className="token-traits">
+                {metadata.attributes.map((attribute, index) => (
+                  <span className="pill" key={`${attribute.trait_type ?? 'trait'}-${index}`}>
+                    {attribute.trait_type ? `${attribute.trait_type}: ` : ''}
+                    {String(attribute.value ?? '')}
+                  </span>
+                ))}
+              </div>
+            ) : null}
+            {!uri && !tokenUriError ? <p className="muted">This collection has no token metadata URI.</p> : null}
+            {uri ? (
+              <a className="token-link" href={resolveMediaUri(uri)} target="_blank" rel="noreferrer">
+                {metadataLoading ? 'Loading metadata...' : metadataError ? 'Metadata unavailable' : 'View metadata JSON'}
+              </a>
+            ) : null}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { formatEther, isAddress } from 'ethers';
+
+import { requireContractAddress, useContractAddress } from '../hooks/useContractAddress';
+import { useNovaMintTx } from '../hooks/useNovaMintTx';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { findEvent } from '../tx/events';
+import type { Collection } from './NovaMintApp';
+import { TxStatusLine } from './TxStatusLine';
+
+type Props = {
+  collection: Collection;
+  decryptedOwner: string | null;
+};
+
+type PendingWithdrawal = {
+  requestId: bigint;
+  matches: `0x${string}`;
+};
+
+export function TreasuryPanel({ collection, decryptedOwner }: Props) {
+  const contractAddress = useContractAddress();
+  const { instance, isLoading: zamaLoading } = useZamaInstance();
+  const tx = useNovaMintTx();
+
+  const [recipient, setRecipient] = useState('');
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  // A request whose finalization failed; the balance stays locked in it until it is finalized or cancelled.
+  const [pending, setPending] = useState<PendingWithdrawal | null>(null);
+
+  const targetRecipient = recipient.trim() || decryptedOwner || '';
+
+  const finalize = async (request: PendingWithdrawal) => {
+    if (!instance) {
+      throw new Error('Encryption service is not ready.');
+    }
+    tx.report('Waiting for the recipient check decryption...');
+    const decryption = await instance.publicDecrypt([request.matches]);
+
+    await tx.send({
+      functionName: 'finalizeWithdrawal',
+      args: [request.requestId, decryption.abiEncodedClearValues, decryption.decryptionProof],
+      pending: 'Finalizing withdrawal...',
+      confirmed: decryption.clearValues[request.matches]
+        ? 'Proceeds sent to the hidden owner.'
+        : 'That address is not the hidden owner. The balance stays in the collection.',
+      effects: { collectionId: collection.id },
+    });
+    setPending(null);
+  };
+
+  const handleWithdraw = async () => {
+    tx.reset();
+    if (!isAddress(targetRecipient)) {
+      tx.fail('Decrypt the hidden owner or enter the payout address.');
+      return;
+    }
+    if (!instance) {
+      tx.fail('Encryption service is not ready.');
+      return;
+    }
+
+    setIsWithdrawing(true);
+    try {
+      const receipt = await tx.send({
+        functionName: 'requestWithdrawal',
+        args: [collection.id, targetRecipient as `0x${string}`],
+        pending: 'Checking the payout address against the hidden owner...',
+        effects: { collectionId: collection.id },
+      });
+      const requested = findEvent(receipt, requireContractAddress(contractAddress), 'WithdrawalRequested');
+      if (!requested) {
+        throw new Error('Withdrawal request was not recorded.');
+      }
+
+      const request: PendingWithdrawal = { requestId: requested.args.requestId, matches: requested.args.matches };
+      setPending(request);
+      await finalize(request);
+      setRecipient('');
+    } catch (error) {
+      tx.fail(error, 'Withdrawal failed.');
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  const handleRetry = async () => {
+    if (!pending) {
+      return;
+    }
+    tx.reset();
+    setIsWithdrawing(true);
+    try {
+      await finalize(pending);
+    } catch (error) {
+      tx.fail(error, 'Withdrawal failed.');
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!pending) {
+      return;
+    }
+    tx.reset();
+    setIsWithdrawing(true);
+    try {
+      await tx.send({
+        functionName: 'cancelWithdrawal',
+        args: [pending.requestId],
+        pending: 'Cancelling withdrawal...',
+        confirmed: 'Withdrawal cancelled. The balance is back in the collection.',
+        effects: { collectionId: collection.id },
+      });
+      setPending(null);
+    } catch (error) {
+      tx.fail(error, 'Could not cancel the withdrawal.');
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  return (
+    <div className="treasury-panel">
+      <div className="subpanel-header">
+        <p className="stat-label">Proceeds</p>
+        <span className="pill">{formatEther(collection.balance)} ETH</span>
+      </div>
+      <div className="inline-field">
+        <input
+          value={recipient}
+          onChange={(event) => setRecipient(event.target.value)}
+          placeholder={decryptedOwner ?? 'Hidden owner address'}
+        />
+        <button
+          type="button"
+          onClick={handleWithdraw}
+          disabled={isWithdrawing || zamaLoading || collection.balance === 0n || Boolean(pending)}
+        >
+          {isWithdrawing ? 'Withdrawing...' : 'Withdraw'}
+        </button>
+      </div>
+      {pending && (
+        <div className="inline-field">
+          <button type="button" onClick={handleRetry} disabled={isWithdrawing || zamaLoading}>
+            Retry withdrawal
+          </button>
+          <button type="button" className="ghost" onClick={handleCancel} disabled={isWithdrawing}>
+            Cancel withdrawal
+          </button>
+        </div>
+      )}
+      <p className="muted">Mint and royalty proceeds are only released to the encrypted hidden owner.</p>
+      <TxStatusLine status={tx.status} />
+    </div>
+  );
+}
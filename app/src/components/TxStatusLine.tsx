@@ -0,0 +1,25 @@
+import type { TxStatus } from '../hooks/useNovaMintTx';
+
+type Props = {
+  status: TxStatus;
+  className?: string;
+};
+
+export function TxStatusLine({ status, className = 'muted' }: Props) {
+  if (!status.message) {
+    return null;
+  }
+  return (
+    <div className={`${className} tx-status ${status.state}`} role="status">
+      {status.message}
+      {status.explorerUrl ? (
+        <>
+          {' '}
+          <a href={status.explorerUrl} target="_blank" rel="noreferrer">
+            View transaction
+          </a>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useChainId, useConfig } from 'wagmi';
+import { waitForTransactionReceipt } from 'wagmi/actions';
+
+import { getExplorerTxUrl } from '../config/networks';
+import { useContractAddress } from '../hooks/useContractAddress';
+import { useTxTray } from '../hooks/useTxTray';
+import { describeTxError } from '../tx/errors';
+import { createdCollectionId } from '../tx/events';
+import { reconcileTx } from '../tx/reconcile';
+import { claimTx, clearSettledTxs, dismissTx, entryEffects, replaceTx, settleTx, type TrayEntry } from '../tx/tray';
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function entryMessage(entry: TrayEntry) {
+  if (entry.state === 'failed') {
+    return entry.error ?? 'Transaction failed.';
+  }
+  if (entry.state === 'confirmed') {
+    return entry.confirmedLabel ?? `${entry.label.replace(/\.+$/, '')} confirmed.`;
+  }
+  return entry.label;
+}
+
+/**
+ * App-wide list of recent transactions. Pending ones left over from a previous page load are watched again here, and
+ * their reads are reconciled once they are mined.
+ */
+export function TxTray() {
+  const entries = useTxTray();
+  const config = useConfig();
+  const chainId = useChainId();
+  const contractAddress = useContractAddress();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const pendingCount = entries.filter((entry) => entry.state === 'pending').length;
+
+  useEffect(() => {
+    for (const entry of entries) {
+      if (entry.state !== 'pending' || !claimTx(entry.hash)) {
+        continue;
+      }
+      // Follows the entry when the wallet speeds up or cancels it, so it settles under the transaction that was mined.
+      let hash = entry.hash;
+      let replacedError: string | undefined;
+      waitForTransactionReceipt(config, {
+        hash,
+        chainId: entry.chainId as typeof chainId,
+        // A transaction can stay pending for a long time on a busy network; keep watching until it is mined.
+        timeout: 0,
+        onReplaced: ({ reason, transaction }) => {
+          replaceTx(hash, transaction.hash);
+          hash = transaction.hash;
+          if (reason === 'cancelled') {
+            replacedError = 'Transaction was cancelled in the wallet.';
+          } else if (reason === 'replaced') {
+            replacedError = 'Transaction was replaced by a different one in the wallet.';
+          }
+        },
+      })
+        .then(async (receipt) => {
+          if (replacedError) {
+            settleTx(hash, { state: 'failed', error: replacedError });
+            return;
+          }
+          if (receipt.status !== 'success') {
+            settleTx(hash, { state: 'failed', error: 'Transaction reverted.' });
+            return;
+          }
+          const createdId = createdCollectionId(receipt, entry.address);
+          settleTx(hash, {
+            state: 'confirmed',
+            ...(createdId !== undefined && { collectionId: createdId.toString() }),
+          });
+          if (entry.chainId === chainId && entry.address === contractAddress) {
+            await reconcileTx(queryClient, config, entry.address, entryEffects(entry));
+          }
+        })
+        .catch((error) => settleTx(hash, { state: 'failed', error: describeTxError(error) }));
+    }
+  }, [chainId, config, contractAddress, entries, queryClient]);
+
+  if (!entries.length) {
+    return null;
+  }
+
+  return (
+    <aside className={isOpen ? 'tx-tray open' : 'tx-tray'}>
+      <button type="button" className="tx-tray-toggle" onClick={() => setIsOpen((value) => !value)}>
+        {pendingCount ? `${pendingCount} pending` : 'Transactions'}
+      </button>
+      {isOpen ? (
+        <div className="tx-tray-panel">
+          <div className="subpanel-header">
+            <p className="stat-label">Recent transactions</p>
+            <button type="button" className="ghost" onClick={clearSettledTxs} disabled={pendingCount === entries.length}>
+              Clear finished
+            </button>
+          </div>
+          <ul className="tx-tray-list">
+            {entries.map((entry) => {
+              const explorerUrl = getExplorerTxUrl(entry.chainId, entry.hash);
+              return (
+                <li key={entry.hash} className={`tx-status ${entry.state}`}>
+                  <p>{entryMessage(entry)}</p>
+                  <p className="muted">
+                    {formatTime(entry.submittedAt)}
+                    {entry.collectionId !== undefined ? (
+                      <>
+                        {' · '}
+                        <a href={`#collection-${entry.collectionId}`}>Collection #{entry.collectionId}</a>
+                      </>
+                    ) : null}
+                    {explorerUrl ? (
+                      <>
+                        {' · '}
+                        <a href={explorerUrl} target="_blank" rel="noreferrer">
+                          Explorer
+                        </a>
+                      </>
+                    ) : null}
+                  </p>
+                  {entry.state !== 'pending' ? (
+                    <button type="button" className="ghost" onClick={() => dismissTx(entry.hash)}>
+                      Dismiss
+                    </button>
+                  ) : null}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ) : null}
+    </aside>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { isAddress } from 'ethers';
+import { useReadContract } from 'wagmi';
+
+import { CONTRACT_ABI } from '../config/contracts';
+import { useContractAddress } from '../hooks/useContractAddress';
+import { useNovaMintTx } from '../hooks/useNovaMintTx';
+import type { Collection } from './NovaMintApp';
+import { TxStatusLine } from './TxStatusLine';
+
+type Props = {
+  collection: Collection;
+};
+
+function formatAddress(address?: string) {
+  if (!address) return '';
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export function ViewersPanel({ collection }: Props) {
+  const contractAddress = useContractAddress();
+  const tx = useNovaMintTx();
+
+  const [viewer, setViewer] = useState('');
+  const [pendingAddress, setPendingAddress] = useState<string | null>(null);
+
+  const { data } = useReadContract({
+    address: contractAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'viewers',
+    args: [collection.id],
+  });
+  const viewers = (data as string[] | undefined) ?? [];
+
+  const sendViewerUpdate = async (account: string, action: 'grant' | 'revoke') => {
+    tx.reset();
+    setPendingAddress(account);
+    try {
+      await tx.send({
+        functionName: action === 'grant' ? 'grantViewer' : 'revokeViewer',
+        args: [collection.id, account as `0x${string}`],
+        pending: action === 'grant' ? 'Granting decryption access...' : 'Revoking access and re-encrypting...',
+        confirmed:
+          action === 'grant'
+            ? `${formatAddress(account)} can now decrypt the hidden owner.`
+            : `${formatAddress(account)} no longer has access to the current hidden owner.`,
+        effects: { collectionId: collection.id },
+      });
+      if (action === 'grant') {
+        setViewer('');
+      }
+    } catch (error) {
+      tx.fail(error, 'Failed to update viewers.');
+    } finally {
+      setPendingAddress(null);
+    }
+  };
+
+  const handleGrant = () => {
+    const account = viewer.trim();
+    if (!isAddress(account)) {
+      tx.fail('Enter a valid viewer address.');
+      return;
+    }
+    sendViewerUpdate(account, 'grant');
+  };
+
+  return (
+    <div className="viewers-panel">
+      <div className="subpanel-header">
+        <p className="stat-label">Viewers</p>
+        <span className="pill">{viewers.length}</span>
+      </div>
+      {viewers.length ? (
+        <ul className="viewer-list">
+          {viewers.map((account) => (
+            <li key={account}>
+              <span className="pill">{formatAddress(account)}</span>
+              <button
+                type="button"
+                className="ghost"
+                onClick={() => sendViewerUpdate(account, 'revoke')}
+                disabled={pendingAddress !== null}
+              >
+                {pendingAddress === account ? 'Revoking...' : 'Revoke'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="muted">Only you can decrypt the hidden owner.</p>
+      )}
+      <div className="inline-field">
+        <input value={viewer} onChange={(event) => setViewer(event.target.value)} placeholder="Viewer address" />
+        <button type="button" onClick={handleGrant} disabled={pendingAddress !== null}>
+          {pendingAddress !== null && pendingAddress === viewer.trim() ? 'Granting...' : 'Grant'}
+        </button>
+      </div>
+      <TxStatusLine status={tx.status} />
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+
+import {
+  createNetworkInstance,
+  failureMessage,
+  MAX_AUTO_RETRIES,
+  retryDelay,
+  ZamaContext,
+  type InstanceFactory,
+  type ZamaState,
+} from '../fhevm/instance';
+import { useNetwork } from '../hooks/useNetwork';
+
+type Props = {
+  children: ReactNode;
+  /** Overrides how the instance is built, e.g. with a mock for local and test runs. */
+  factory?: InstanceFactory;
+};
+
+const IDLE: ZamaState = { status: 'idle', instance: null, error: null, attempt: 0, retryAt: null };
+
+/**
+ * Owns the single FHEVM instance of the app. Initialization restarts on every network change, failed attempts are
+ * retried with exponential backoff, and `retry` lets the user start over at any time.
+ */
+export function ZamaProvider({ children, factory = createNetworkInstance }: Props) {
+  const network = useNetwork();
+  const [state, setState] = useState<ZamaState>(IDLE);
+  const [generation, setGeneration] = useState(0);
+
+  useEffect(() => {
+    if (!network) {
+      setState({ ...IDLE, error: 'Encryption is not available on this network' });
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const start = async (attempt: number) => {
+      try {
+        const instance = await factory(network, (status) => {
+          if (!cancelled) {
+            setState({ status, instance: null, error: null, attempt, retryAt: null });
+          }
+        });
+        if (!cancelled) {
+          setState({ status: 'ready', instance, error: null, attempt, retryAt: null });
+        }
+      } catch (err) {
+        if (cancelled) {
+          return;
+        }
+        console.error('Failed to initialize Zama instance:', err);
+        const delay = attempt < MAX_AUTO_RETRIES ? retryDelay(attempt) : null;
+        setState({
+          status: 'failed',
+          instance: null,
+          error: failureMessage(network),
+          attempt: attempt + 1,
+          retryAt: delay !== null ? Date.now() + delay : null,
+        });
+        if (delay !== null) {
+          timer = setTimeout(() => start(attempt + 1), delay);
+        }
+      }
+    };
+
+    start(0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [factory, generation, network]);
+
+  const retry = useCallback(() => setGeneration((value) => value + 1), []);
+
+  const value = useMemo(
+    () => ({
+      ...state,
+      isLoading: state.status === 'loading-wasm' || state.status === 'fetching-keys',
+      retry,
+    }),
+    [retry, state]
+  );
+
+  return <ZamaContext.Provider value={value}>{children}</ZamaContext.Provider>;
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+
+import type { ZamaStatus } from '../fhevm/instance';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+
+const STEP_LABELS: Partial<Record<ZamaStatus, string>> = {
+  'loading-wasm': 'Loading the FHE encryption engine...',
+  'fetching-keys': 'Fetching the network encryption keys...',
+};
+
+/** Shows encryption setup progress and failures, with a manual retry. Hidden once the instance is ready. */
+export function ZamaStatusBanner() {
+  const { status, error, retryAt, retry } = useZamaInstance();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (retryAt === null) {
+      return;
+    }
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  if (status === 'ready' || (status === 'idle' && !error)) {
+    return null;
+  }
+
+  if (status !== 'failed') {
+    return (
+      <div className="status-banner zama-banner" role="status">
+        <p>{STEP_LABELS[status] ?? error}</p>
+      </div>
+    );
+  }
+
+  const secondsLeft = retryAt !== null ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : null;
+
+  return (
+    <div className="status-banner zama-banner failed" role="alert">
+      <p>
+        {error}
+        {secondsLeft !== null ? ` Retrying in ${secondsLeft}s.` : ' Automatic retries stopped.'}
+      </p>
+      <button type="button" className="ghost" onClick={retry}>
+        Retry now
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+/**
+ * Base URL of the NovaMint indexer (see /indexer) per chain id, read from `VITE_INDEXER_URL` as comma-separated
+ * `chainId=url` pairs, e.g. `31337=http://localhost:4000`. An indexer follows a single chain, so chains without an entry
+ * poll the contract directly instead.
+ */
+export const INDEXER_URLS: ReadonlyMap<number, string> = parseIndexerUrls(import.meta.env.VITE_INDEXER_URL ?? '');
+
+function parseIndexerUrls(value: string) {
+  const urls = new Map<number, string>();
+  for (const pair of value.split(',')) {
+    const separator = pair.indexOf('=');
+    const chainId = Number(pair.slice(0, separator).trim());
+    const url = pair.slice(separator + 1).trim().replace(/\/+$/, '');
+    if (separator > 0 && Number.isInteger(chainId) && url) {
+      urls.set(chainId, url);
+    }
+  }
+  return urls;
+}
@@ -0,0 +1,25 @@
+import type { Chain } from 'viem';
+import { hardhat, sepolia } from 'wagmi/chains';
+
+export type NetworkConfig = {
+  chain: Chain;
+  label: string;
+  /** `mock` uses the FHEVM mock served by a local `npm run chain` node instead of the Zama relayer. */
+  fhevm: 'relayer' | 'mock';
+};
+
+const SEPOLIA: NetworkConfig = { chain: sepolia, label: 'Sepolia', fhevm: 'relayer' };
+const LOCALHOST: NetworkConfig = { chain: hardhat, label: 'Localhost', fhevm: 'mock' };
+
+// The local node is only offered by the dev server, so production builds never point wallets at 127.0.0.1.
+export const NETWORKS: readonly NetworkConfig[] = import.meta.env.DEV ? [SEPOLIA, LOCALHOST] : [SEPOLIA];
+
+export function getNetwork(chainId: number | undefined): NetworkConfig | undefined {
+  return NETWORKS.find((network) => network.chain.id === chainId);
+}
+
+/** Block explorer page for a transaction, when the chain has an explorer. */
+export function getExplorerTxUrl(chainId: number | undefined, hash: string): string | undefined {
+  const explorer = getNetwork(chainId)?.chain.blockExplorers?.default.url;
+  return explorer ? `${explorer}/tx/${hash}` : undefined;
+}
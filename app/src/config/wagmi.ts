@@ -1,9 +1,11 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { sepolia } from 'wagmi/chains';
+import type { Chain } from 'viem';
+
+import { NETWORKS } from './networks';
 
 export const config = getDefaultConfig({
   appName: 'NovaMint',
   projectId: '4b57c0d5a0b74f14aa6b8df17057a2ae',
-  chains: [sepolia],
+  chains: NETWORKS.map((network) => network.chain) as [Chain, ...Chain[]],
   ssr: false,
 });
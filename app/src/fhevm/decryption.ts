@@ -0,0 +1,166 @@
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+import type { JsonRpcSigner } from 'ethers';
+
+import { type DecryptSession, deleteSession, loadSession, saveSession } from './sessionStore';
+
+type DecryptingInstance = Pick<FhevmInstance, 'createEIP712' | 'generateKeypair' | 'userDecrypt'>;
+export type ClearValue = bigint | boolean | `0x${string}`;
+
+/** Length of the EIP-712 user-decrypt authorization the wallet signs once per session. */
+export const SESSION_DURATION_DAYS = 7;
+// Sessions are renewed a little early so a request never races the expiry on the relayer.
+const EXPIRY_MARGIN_SECONDS = 300;
+// The relayer rejects user-decrypt requests above 2048 encrypted bits.
+const MAX_BITS_PER_REQUEST = 2048;
+// Encrypted bits per handle type, keyed by the type byte of the handle (mirrors the relayer SDK).
+const HANDLE_BITS: Record<number, number> = { 0: 2, 2: 8, 3: 16, 4: 32, 5: 64, 6: 128, 7: 160, 8: 256 };
+
+/*
+ * Live sessions are kept in memory and in IndexedDB until they expire, the private key and signature encrypted under a
+ * non-extractable WebCrypto key (see sessionStore.ts). The signature only lets the keypair decrypt handles the ACL
+ * already grants the wallet.
+ */
+const memorySessions = new Map<string, DecryptSession>();
+
+export type DecryptScope = {
+  chainId: number;
+  contractAddress: `0x${string}`;
+  userAddress: `0x${string}`;
+};
+
+function sessionKey({ chainId, contractAddress, userAddress }: DecryptScope) {
+  return `novamint:decrypt-session:${chainId}:${contractAddress.toLowerCase()}:${userAddress.toLowerCase()}`;
+}
+
+function isLive(session: DecryptSession) {
+  const expiresAt = session.startTimestamp + session.durationDays * 86400 - EXPIRY_MARGIN_SECONDS;
+  return Math.floor(Date.now() / 1000) < expiresAt;
+}
+
+export function hasDecryptSession(scope: DecryptScope) {
+  const session = memorySessions.get(sessionKey(scope));
+  return Boolean(session && isLive(session));
+}
+
+export function clearDecryptSession(scope: DecryptScope) {
+  memorySessions.delete(sessionKey(scope));
+  deleteSession(sessionKey(scope)).catch(() => {
+    // Storage is blocked, so nothing was stored either.
+  });
+  clearDecryptedValues(scope.userAddress);
+}
+
+/** Reuses the live session for the scope, or asks the wallet for one signature covering `SESSION_DURATION_DAYS`. */
+async function getSession(instance: DecryptingInstance, signer: JsonRpcSigner, scope: DecryptScope) {
+  const key = sessionKey(scope);
+  const cached = memorySessions.get(key) ?? (await loadSession(key).catch(() => undefined));
+  if (cached && isLive(cached)) {
+    memorySessions.set(key, cached);
+    return cached;
+  }
+  if (cached) {
+    deleteSession(key).catch(() => undefined);
+  }
+
+  const keypair = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = instance.createEIP712(keypair.publicKey, [scope.contractAddress], startTimestamp, SESSION_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const session = { ...keypair, signature, startTimestamp, durationDays: SESSION_DURATION_DAYS };
+  memorySessions.set(key, session);
+  await saveSession(key, session).catch(() => {
+    // Storage is blocked; the session still lasts for this page.
+  });
+  return session;
+}
+
+/** Splits handles into groups the relayer accepts in a single request. */
+function chunkHandles(handles: string[]) {
+  const chunks: string[][] = [];
+  let bits = MAX_BITS_PER_REQUEST;
+  for (const handle of handles) {
+    const handleBits = HANDLE_BITS[parseInt(handle.slice(-4, -2), 16)] ?? MAX_BITS_PER_REQUEST;
+    if (bits + handleBits > MAX_BITS_PER_REQUEST) {
+      chunks.push([]);
+      bits = 0;
+    }
+    chunks[chunks.length - 1].push(handle);
+    bits += handleBits;
+  }
+  return chunks;
+}
+
+// Clear values per wallet, so switching accounts never shows another wallet's decryptions.
+let decryptedValues = new Map<string, ClearValue>();
+const listeners = new Set<() => void>();
+
+function valueKey(userAddress: string, handle: string) {
+  return `${userAddress.toLowerCase()}:${handle.toLowerCase()}`;
+}
+
+function publish(next: Map<string, ClearValue>) {
+  decryptedValues = next;
+  listeners.forEach((listener) => listener());
+}
+
+function clearDecryptedValues(userAddress: string) {
+  const prefix = `${userAddress.toLowerCase()}:`;
+  publish(new Map([...decryptedValues].filter(([key]) => !key.startsWith(prefix))));
+}
+
+export function subscribeDecryptions(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getDecryptions() {
+  return decryptedValues;
+}
+
+export function getDecryptedValue(values: Map<string, ClearValue>, userAddress: string | undefined, handle: string) {
+  return userAddress ? values.get(valueKey(userAddress, handle)) : undefined;
+}
+
+/**
+ * Decrypts every handle the wallet may read with at most one signature per session. Handles decrypted before are
+ * answered from memory; the rest go to the relayer in as few `userDecrypt` requests as its bit limit allows.
+ */
+export async function userDecryptHandles(
+  instance: DecryptingInstance,
+  signer: JsonRpcSigner,
+  scope: DecryptScope,
+  handles: string[]
+): Promise<Map<string, ClearValue>> {
+  const unique = [...new Set(handles.map((handle) => handle.toLowerCase()))];
+  const missing = unique.filter((handle) => !decryptedValues.has(valueKey(scope.userAddress, handle)));
+
+  if (missing.length) {
+    const session = await getSession(instance, signer, scope);
+    for (const chunk of chunkHandles(missing)) {
+      const result = await instance.userDecrypt(
+        chunk.map((handle) => ({ handle, contractAddress: scope.contractAddress })),
+        session.privateKey,
+        session.publicKey,
+        session.signature.replace('0x', ''),
+        [scope.contractAddress],
+        scope.userAddress,
+        session.startTimestamp,
+        session.durationDays
+      );
+      const next = new Map(decryptedValues);
+      for (const [handle, value] of Object.entries(result)) {
+        next.set(valueKey(scope.userAddress, handle), value);
+      }
+      publish(next);
+    }
+  }
+
+  return new Map(unique.map((handle) => [handle, decryptedValues.get(valueKey(scope.userAddress, handle))!]));
+}
@@ -0,0 +1,78 @@
+import { createContext } from 'react';
+import { createInstance, initSDK, SepoliaConfig, type FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+
+import type { NetworkConfig } from '../config/networks';
+
+/**
+ * Lifecycle of the shared FHEVM instance. `idle` means nothing is being loaded (no supported network); the relayer
+ * path goes through `loading-wasm` then `fetching-keys`, the local mock only fetches its node metadata.
+ */
+export type ZamaStatus = 'idle' | 'loading-wasm' | 'fetching-keys' | 'ready' | 'failed';
+
+export type ZamaState = {
+  status: ZamaStatus;
+  instance: FhevmInstance | null;
+  error: string | null;
+  /** Failed attempts since the last manual retry or network change. */
+  attempt: number;
+  /** When the next automatic retry starts, in milliseconds since the epoch; null once retries are exhausted. */
+  retryAt: number | null;
+};
+
+export type ZamaContextValue = ZamaState & {
+  isLoading: boolean;
+  /** Starts over immediately, resetting the backoff. */
+  retry: () => void;
+};
+
+/**
+ * Builds the instance for a network and reports each loading step. Pass a different one to `ZamaProvider` to run the
+ * app against a stub or a mock node; it must be a stable reference, since a new one restarts initialization.
+ */
+export type InstanceFactory = (
+  network: NetworkConfig,
+  onStep: (status: 'loading-wasm' | 'fetching-keys') => void
+) => Promise<FhevmInstance>;
+
+/** Automatic retries after a failure, each waiting twice as long as the one before. */
+export const MAX_AUTO_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export function retryDelay(attempt: number) {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+}
+
+// The TFHE WASM only has to load once per page, even if the instance is rebuilt after a network switch.
+let sdkReady: Promise<boolean> | undefined;
+
+function loadSdk() {
+  sdkReady ??= initSDK().catch((error) => {
+    sdkReady = undefined;
+    throw error;
+  });
+  return sdkReady;
+}
+
+/** Relayer SDK on public networks, the Hardhat mock coprocessor on networks flagged `mock` in development. */
+export const createNetworkInstance: InstanceFactory = async (network, onStep) => {
+  if (import.meta.env.DEV && network.fhevm === 'mock') {
+    onStep('fetching-keys');
+    // Dev-only import, so production bundles never ship the mock.
+    const { createMockInstance } = await import('./mockInstance');
+    return createMockInstance(network.chain.rpcUrls.default.http[0], network.chain.id);
+  }
+
+  onStep('loading-wasm');
+  await loadSdk();
+  onStep('fetching-keys');
+  return createInstance(SepoliaConfig);
+};
+
+export function failureMessage(network: NetworkConfig) {
+  return network.fhevm === 'mock'
+    ? 'Failed to reach the local FHEVM mock. Is `npm run chain` running?'
+    : 'Failed to initialize encryption service';
+}
+
+export const ZamaContext = createContext<ZamaContextValue | null>(null);
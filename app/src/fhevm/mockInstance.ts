@@ -0,0 +1,42 @@
+import { JsonRpcProvider } from 'ethers';
+import { MockFhevmInstance } from '@fhevm/mock-utils';
+
+type RelayerMetadata = {
+  ACLAddress: `0x${string}`;
+  InputVerifierAddress: `0x${string}`;
+  KMSVerifierAddress: `0x${string}`;
+  gatewayChainId: number;
+};
+
+// Gateway verifying contracts the Hardhat FHEVM plugin signs decryptions and input proofs for.
+const GATEWAY_DECRYPTION_ADDRESS = '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64';
+const GATEWAY_INPUT_VERIFICATION_ADDRESS = '0x812b06e1CDCE800494b79fFE4f925A504a9A9810';
+
+/**
+ * Creates an FHEVM instance backed by the mock coprocessor of a local Hardhat node. The node answers the relayer
+ * requests (input proofs, user and public decryption) itself, so no Zama service is needed.
+ */
+export async function createMockInstance(rpcUrl: string, chainId: number) {
+  const provider = new JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+  let metadata: RelayerMetadata;
+  try {
+    metadata = await provider.send('fhevm_relayer_metadata', []);
+  } catch {
+    throw new Error(`No FHEVM mock node at ${rpcUrl}. Start one with \`npm run chain\`.`);
+  }
+
+  return MockFhevmInstance.create(
+    provider,
+    provider,
+    {
+      aclContractAddress: metadata.ACLAddress,
+      chainId,
+      gatewayChainId: metadata.gatewayChainId,
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+      verifyingContractAddressDecryption: GATEWAY_DECRYPTION_ADDRESS,
+      verifyingContractAddressInputVerification: GATEWAY_INPUT_VERIFICATION_ADDRESS,
+    },
+    { inputVerifierProperties: {}, kmsVerifierProperties: {} }
+  );
+}
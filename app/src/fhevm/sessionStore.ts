@@ -0,0 +1,107 @@
+export type DecryptSession = {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+};
+
+/** What IndexedDB holds for a session: the private key and signature only as AES-GCM ciphertext. */
+type StoredSession = Pick<DecryptSession, 'publicKey' | 'startTimestamp' | 'durationDays'> & {
+  iv: Uint8Array<ArrayBuffer>;
+  secrets: ArrayBuffer;
+};
+
+const DB_NAME = 'novamint';
+const STORE_NAME = 'decrypt-sessions';
+const WRAPPING_KEY_ID = 'wrapping-key';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+let wrappingKey: Promise<CryptoKey> | undefined;
+
+/*
+ * The AES key is created non-extractable, so scripts on the origin can use it through WebCrypto but never read its
+ * bytes, and the stored ciphertext is useless anywhere else. Tabs racing to create it keep whichever was stored first.
+ */
+function getWrappingKey() {
+  wrappingKey ??= (async () => {
+    const stored = (await withStore('readonly', (store) => store.get(WRAPPING_KEY_ID))) as CryptoKey | undefined;
+    if (stored) {
+      return stored;
+    }
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    try {
+      await withStore('readwrite', (store) => store.add(key, WRAPPING_KEY_ID));
+      return key;
+    } catch {
+      return (await withStore('readonly', (store) => store.get(WRAPPING_KEY_ID))) as CryptoKey;
+    }
+  })().catch((error) => {
+    wrappingKey = undefined;
+    throw error;
+  });
+  return wrappingKey;
+}
+
+/** Reads a stored session; undefined when there is none or it no longer decrypts. */
+export async function loadSession(id: string): Promise<DecryptSession | undefined> {
+  const stored = (await withStore('readonly', (store) => store.get(id))) as StoredSession | undefined;
+  if (!stored) {
+    return undefined;
+  }
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: stored.iv }, await getWrappingKey(), stored.secrets);
+    const { privateKey, signature } = JSON.parse(new TextDecoder().decode(plaintext)) as DecryptSession;
+    return {
+      publicKey: stored.publicKey,
+      privateKey,
+      signature,
+      startTimestamp: stored.startTimestamp,
+      durationDays: stored.durationDays,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+export async function saveSession(id: string, session: DecryptSession) {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const secrets = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getWrappingKey(),
+    new TextEncoder().encode(JSON.stringify({ privateKey: session.privateKey, signature: session.signature }))
+  );
+  const stored: StoredSession = {
+    publicKey: session.publicKey,
+    startTimestamp: session.startTimestamp,
+    durationDays: session.durationDays,
+    iv,
+    secrets,
+  };
+  await withStore('readwrite', (store) => store.put(stored, id));
+}
+
+export async function deleteSession(id: string) {
+  await withStore('readwrite', (store) => store.delete(id));
+}
@@ -0,0 +1,77 @@
+import { useMemo } from 'react';
+import type { InfiniteData } from '@tanstack/react-query';
+import type { ContractFunctionParameters } from 'viem';
+import { useInfiniteReadContracts, useReadContract } from 'wagmi';
+
+import { CONTRACT_ABI } from '../config/contracts';
+import type { Collection } from '../components/NovaMintApp';
+import { useContractAddress } from './useContractAddress';
+
+export const COLLECTIONS_PAGE_SIZE = 12;
+
+const REFETCH_INTERVAL = 12000;
+
+type CollectionsPageRead = ContractFunctionParameters<
+  typeof CONTRACT_ABI,
+  'view',
+  'getCollections' | 'getCollectionsByCreator'
+>;
+
+/**
+ * Loads collections page by page, either across every creator or only for `creator` when one is given.
+ * Set `poll` to false when something else (such as the indexer feed) keeps the queries fresh.
+ */
+export function useCollections(creator?: `0x${string}`, poll = true) {
+  const contractAddress = useContractAddress();
+  const refetchInterval = poll ? REFETCH_INTERVAL : false;
+  const { data: total } = useReadContract({
+    address: contractAddress,
+    abi: CONTRACT_ABI,
+    functionName: creator ? 'totalCollectionsByCreator' : 'totalCollections',
+    args: creator ? [creator] : [],
+    query: {
+      enabled: Boolean(contractAddress),
+      refetchInterval,
+    },
+  });
+
+  const pages = useInfiniteReadContracts({
+    cacheKey: `${contractAddress}-${creator ? `collections-by-${creator.toLowerCase()}` : 'collections'}`,
+    contracts(offset: number): [CollectionsPageRead] {
+      const page = [BigInt(offset), BigInt(COLLECTIONS_PAGE_SIZE)] as const;
+      // Only runs while the address is known (see `enabled`).
+      const address = contractAddress!;
+      return creator
+        ? [{ address, abi: CONTRACT_ABI, functionName: 'getCollectionsByCreator', args: [creator, ...page] }]
+        : [{ address, abi: CONTRACT_ABI, functionName: 'getCollections', args: page }];
+    },
+    query: {
+      initialPageParam: 0,
+      getNextPageParam: (lastPage: readonly { result?: unknown }[], _allPages: unknown, lastOffset: number) => {
+        const page = lastPage[0]?.result as unknown[] | undefined;
+        return page && page.length === COLLECTIONS_PAGE_SIZE ? lastOffset + COLLECTIONS_PAGE_SIZE : undefined;
+      },
+      enabled: Boolean(contractAddress),
+      refetchInterval,
+    },
+  });
+
+  const collections = useMemo<Collection[]>(() => {
+    // wagmi types `data` as a single page, but the query resolves to react-query's InfiniteData.
+    const data = pages.data as unknown as InfiniteData<readonly { result?: unknown }[]> | undefined;
+    if (!data) {
+      return [];
+    }
+    // CollectionView structs decode into objects whose fields match Collection one-to-one.
+    return data.pages.flatMap((page) => (page[0]?.result as Collection[] | undefined) ?? []);
+  }, [pages.data]);
+
+  return {
+    collections,
+    total: total as bigint | undefined,
+    isLoading: pages.isLoading,
+    hasNextPage: pages.hasNextPage,
+    isFetchingNextPage: pages.isFetchingNextPage,
+    fetchNextPage: pages.fetchNextPage,
+  };
+}
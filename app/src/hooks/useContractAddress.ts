@@ -0,0 +1,24 @@
+import { useChainId } from 'wagmi';
+
+import { CONTRACT_ADDRESSES, type SupportedChainId } from '../config/contracts';
+
+export function getContractAddress(chainId: number): `0x${string}` | undefined {
+  return CONTRACT_ADDRESSES[chainId as SupportedChainId];
+}
+
+/**
+ * NovaMint address on the wallet's current chain, or `undefined` when it is not deployed there.
+ */
+export function useContractAddress() {
+  return getContractAddress(useChainId());
+}
+
+/**
+ * Narrows the address for write handlers, which should not run on a chain without a NovaMint deployment.
+ */
+export function requireContractAddress(address: `0x${string}` | undefined): `0x${string}` {
+  if (!address) {
+    throw new Error('NovaMint is not deployed on this network.');
+  }
+  return address;
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+
+import { useIndexerUrl } from './useIndexerUrl';
+
+const REFRESHED_QUERY_KEYS = new Set(['readContract', 'readContracts', 'infiniteReadContracts', 'indexer']);
+
+/**
+ * Subscribes to the indexer's event stream and refreshes contract and indexer reads whenever new blocks are indexed.
+ * Returns whether the stream is connected, so callers can fall back to polling while it is not.
+ */
+export function useIndexerFeed() {
+  const queryClient = useQueryClient();
+  const indexerUrl = useIndexerUrl();
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!indexerUrl || typeof EventSource === 'undefined') {
+      return;
+    }
+
+    const source = new EventSource(`${indexerUrl}/stream`);
+    source.onopen = () => setIsConnected(true);
+    source.onerror = () => setIsConnected(false);
+    source.addEventListener('indexed', () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => REFRESHED_QUERY_KEYS.has(String(query.queryKey[0])),
+      });
+    });
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [indexerUrl, queryClient]);
+
+  return isConnected;
+}
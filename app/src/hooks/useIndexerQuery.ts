@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { useIndexerUrl } from './useIndexerUrl';
+
+async function fetchIndexer<T>(url: string, path: string): Promise<T> {
+  const response = await fetch(`${url}${path}`);
+  if (!response.ok) {
+    throw new Error(`Indexer request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Reads a JSON endpoint of the NovaMint indexer. Disabled when no indexer is configured for the current chain.
+ */
+export function useIndexerQuery<T>(path: string) {
+  const url = useIndexerUrl();
+  return useQuery({
+    queryKey: ['indexer', url, path],
+    queryFn: () => fetchIndexer<T>(url, path),
+    enabled: Boolean(url),
+    retry: 1,
+  });
+}
@@ -0,0 +1,14 @@
+import { useChainId } from 'wagmi';
+
+import { INDEXER_URLS } from '../config/indexer';
+
+export function getIndexerUrl(chainId: number): string {
+  return INDEXER_URLS.get(chainId) ?? '';
+}
+
+/**
+ * Indexer base URL for the wallet's current chain, or `''` when none is configured there.
+ */
+export function useIndexerUrl() {
+  return getIndexerUrl(useChainId());
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+
+import type { Collection } from '../components/NovaMintApp';
+
+export type MintPhase = 'paused' | 'scheduled' | 'open' | 'ended';
+
+function nowSeconds() {
+  return Math.floor(Date.now() / 1000);
+}
+
+/** Converts a `datetime-local` input value to a unix timestamp, with an empty value meaning no bound (0). */
+export function toUnixSeconds(value: string) {
+  return value ? BigInt(Math.floor(new Date(value).getTime() / 1000)) : 0n;
+}
+
+/** Converts a unix timestamp to a `datetime-local` input value, with 0 meaning no bound (empty). */
+export function toDatetimeLocal(timestamp: bigint) {
+  if (timestamp === 0n) return '';
+  const date = new Date(Number(timestamp) * 1000);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+/**
+ * Tracks where a collection is in its mint window and how many seconds remain until the next change
+ * (opening while scheduled, closing while open). Ticks every second while a countdown is running.
+ */
+export function useMintWindow(collection: Collection) {
+  const [now, setNow] = useState(nowSeconds);
+
+  const start = Number(collection.mintStart);
+  const end = Number(collection.mintEnd);
+  const phase: MintPhase = collection.paused
+    ? 'paused'
+    : now < start
+      ? 'scheduled'
+      : end !== 0 && now >= end
+        ? 'ended'
+        : 'open';
+  const secondsLeft = phase === 'scheduled' ? start - now : phase === 'open' && end !== 0 ? end - now : null;
+  const isCountingDown = secondsLeft !== null;
+
+  useEffect(() => {
+    if (!isCountingDown) return;
+    const timer = window.setInterval(() => setNow(nowSeconds()), 1000);
+    return () => window.clearInterval(timer);
+  }, [isCountingDown]);
+
+  return { phase, secondsLeft };
+}
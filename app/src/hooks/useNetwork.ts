@@ -0,0 +1,10 @@
+import { useChainId } from 'wagmi';
+
+import { getNetwork } from '../config/networks';
+
+/**
+ * Network the app currently reads from: the wallet's chain when connected, otherwise the selected one.
+ */
+export function useNetwork() {
+  return getNetwork(useChainId());
+}
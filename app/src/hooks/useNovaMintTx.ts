@@ -0,0 +1,152 @@
+import { useCallback, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Contract } from 'ethers';
+import type { ContractFunctionArgs, ContractFunctionName } from 'viem';
+import { useChainId, useConfig } from 'wagmi';
+
+import { CONTRACT_ABI } from '../config/contracts';
+import { getExplorerTxUrl } from '../config/networks';
+import { TxError, describeTxError } from '../tx/errors';
+import { createdCollectionId } from '../tx/events';
+import { reconcileTx, type TxEffects } from '../tx/reconcile';
+import { settleTx, trackTx } from '../tx/tray';
+import { requireContractAddress, useContractAddress } from './useContractAddress';
+import { useEthersSigner } from './useEthersSigner';
+
+export type TxState = 'idle' | 'simulating' | 'pending' | 'confirmed' | 'failed';
+
+export type TxStatus = {
+  state: TxState;
+  message: string;
+  hash?: string;
+  explorerUrl?: string;
+};
+
+type WriteMutability = 'nonpayable' | 'payable';
+
+/** NovaMint functions that send a transaction. */
+export type NovaMintWriteFunction = ContractFunctionName<typeof CONTRACT_ABI, WriteMutability>;
+
+export type TxRequest<functionName extends NovaMintWriteFunction = NovaMintWriteFunction> = {
+  functionName: functionName;
+  /** Arguments typed from the ABI, so a wrong name, count or type fails the build instead of the wallet prompt. */
+  args: ContractFunctionArgs<typeof CONTRACT_ABI, WriteMutability, functionName>;
+  value?: bigint;
+  /** Status shown while the transaction is mined. */
+  pending: string;
+  /** Status once mined. Leave it out for intermediate steps, so the flow stays pending until it calls `succeed`. */
+  confirmed?: string;
+  /** Reads to refresh once mined; `effects.collectionId` also links the transaction tray entry to its card. */
+  effects?: TxEffects;
+};
+
+const IDLE: TxStatus = { state: 'idle', message: '' };
+
+/**
+ * Sends NovaMint transactions and tracks them in one status: each call is simulated first so reverts surface as
+ * decoded custom errors before the wallet prompts, mined transactions link to the explorer, and the react-query
+ * caches named by `effects` are reconciled before the flow reports success. Every sent transaction is also recorded in
+ * the transaction tray, which keeps watching it across reloads.
+ */
+export function useNovaMintTx() {
+  const signerPromise = useEthersSigner();
+  const contractAddress = useContractAddress();
+  const chainId = useChainId();
+  const config = useConfig();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<TxStatus>(IDLE);
+
+  const send = useCallback(
+    async <functionName extends NovaMintWriteFunction>({
+      functionName,
+      args,
+      value,
+      pending,
+      confirmed,
+      effects,
+    }: TxRequest<functionName>) => {
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Connect your wallet to continue.');
+      }
+      const address = requireContractAddress(contractAddress);
+      const contract = new Contract(address, CONTRACT_ABI, signer);
+      const values = args as readonly unknown[];
+      // Overloads such as `safeTransferFrom` share a name, so the fragment is picked by the arguments.
+      const fragment = contract.interface.getFunction(functionName, [...values]);
+      if (!fragment) {
+        throw new Error(`NovaMint has no ${functionName} function for these arguments.`);
+      }
+      const method = contract.getFunction(fragment.format());
+      const callArgs = value ? [...values, { value }] : [...values];
+
+      setStatus({ state: 'simulating', message: 'Simulating the transaction...' });
+      await method.staticCall(...callArgs);
+      const tx = await method.send(...callArgs);
+      const hash = tx.hash as `0x${string}`;
+      const explorerUrl = getExplorerTxUrl(chainId, hash);
+      setStatus({ state: 'pending', message: pending, hash, explorerUrl });
+      trackTx({ hash, chainId, address, label: pending, confirmedLabel: confirmed, effects });
+
+      let receipt;
+      try {
+        receipt = await tx.wait();
+        if (!receipt) {
+          throw new Error('The transaction was dropped.');
+        }
+      } catch (error) {
+        const message = describeTxError(error);
+        settleTx(hash, { state: 'failed', error: message });
+        throw new TxError(message, hash);
+      }
+
+      if (effects) {
+        await reconcileTx(queryClient, config, address, effects).catch((error) => {
+          console.error('Failed to refresh reads after the transaction:', error);
+        });
+      }
+      const createdId = createdCollectionId(receipt, address);
+      settleTx(hash, { state: 'confirmed', ...(createdId !== undefined && { collectionId: createdId.toString() }) });
+      if (confirmed) {
+        setStatus({ state: 'confirmed', message: confirmed, hash, explorerUrl });
+      }
+      return receipt;
+    },
+    [chainId, config, contractAddress, queryClient, signerPromise]
+  );
+
+  /** Progress of an off-chain step, such as encrypting or waiting for a decryption. */
+  const report = useCallback((message: string) => setStatus({ state: 'pending', message }), []);
+
+  /** Ends a flow successfully, keeping the link to its last transaction. */
+  const succeed = useCallback(
+    (message: string) => setStatus((current) => ({ ...current, state: 'confirmed', message })),
+    []
+  );
+
+  /** Ends a flow with a validation message or a decoded error. */
+  const fail = useCallback(
+    (error: unknown, fallback?: string) => {
+      const hash = error instanceof TxError ? error.hash : undefined;
+      setStatus({
+        state: 'failed',
+        message: describeTxError(error, fallback),
+        hash,
+        explorerUrl: hash ? getExplorerTxUrl(chainId, hash) : undefined,
+      });
+    },
+    [chainId]
+  );
+
+  const reset = useCallback(() => setStatus(IDLE), []);
+
+  return {
+    status,
+    isBusy: status.state === 'simulating' || status.state === 'pending',
+    send,
+    report,
+    succeed,
+    fail,
+    reset,
+  };
+}
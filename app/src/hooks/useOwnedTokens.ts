@@ -0,0 +1,86 @@
+import { useMemo } from 'react';
+import { useReadContract, useReadContracts } from 'wagmi';
+
+import { CONTRACT_ABI } from '../config/contracts';
+import type { Collection } from '../components/NovaMintApp';
+import { useContractAddress } from './useContractAddress';
+
+const REFETCH_INTERVAL = 12000;
+
+export type OwnedCollection = {
+  collection: Collection;
+  tokenIds: bigint[];
+};
+
+/**
+ * Lists the tokens held by `owner` through the contract's owner enumeration, grouped by collection.
+ * Set `poll` to false when something else (such as the indexer feed) keeps the queries fresh.
+ */
+export function useOwnedTokens(owner?: `0x${string}`, poll = true) {
+  const address = useContractAddress();
+  const refetchInterval = poll ? REFETCH_INTERVAL : false;
+
+  const { data: balance } = useReadContract({
+    address,
+    abi: CONTRACT_ABI,
+    functionName: 'balanceOf',
+    args: owner ? [owner] : undefined,
+    query: { enabled: Boolean(address && owner), refetchInterval },
+  });
+
+  const { data: ownedTokens, isLoading: tokensLoading } = useReadContract({
+    address,
+    abi: CONTRACT_ABI,
+    functionName: 'tokensOfOwner',
+    args: owner && balance !== undefined ? [owner, 0n, balance] : undefined,
+    query: { enabled: Boolean(address && owner) && Boolean(balance), refetchInterval },
+  });
+  const tokenIds = useMemo(() => (balance ? (ownedTokens ?? []) : []), [balance, ownedTokens]);
+
+  const { data: tokenCollections, isLoading: collectionIdsLoading } = useReadContracts({
+    contracts: tokenIds.map((tokenId) => ({
+      address,
+      abi: CONTRACT_ABI,
+      functionName: 'tokenCollection',
+      args: [tokenId],
+    })),
+    query: { enabled: tokenIds.length > 0 },
+  });
+
+  const collectionIds = useMemo(() => {
+    const ids = (tokenCollections ?? []).map((entry) => entry.result as bigint | undefined);
+    return [...new Set(ids.filter((id): id is bigint => id !== undefined))].sort((a, b) => (a < b ? -1 : 1));
+  }, [tokenCollections]);
+
+  const { data: collectionResults, isLoading: collectionsLoading } = useReadContracts({
+    contracts: collectionIds.map((collectionId) => ({
+      address,
+      abi: CONTRACT_ABI,
+      functionName: 'getCollection',
+      args: [collectionId],
+    })),
+    query: { enabled: collectionIds.length > 0 },
+  });
+
+  const groups = useMemo<OwnedCollection[]>(() => {
+    const byCollection = new Map<bigint, bigint[]>();
+    (tokenCollections ?? []).forEach((entry, index) => {
+      const collectionId = entry.result as bigint | undefined;
+      if (collectionId === undefined) return;
+      byCollection.set(collectionId, [...(byCollection.get(collectionId) ?? []), tokenIds[index]]);
+    });
+
+    return (collectionResults ?? []).flatMap((entry) => {
+      const collection = entry.result as Collection | undefined;
+      if (!collection) return [];
+      const ids = (byCollection.get(collection.id) ?? []).sort((a, b) => (a < b ? -1 : 1));
+      return [{ collection, tokenIds: ids }];
+    });
+  }, [collectionResults, tokenCollections, tokenIds]);
+
+  return {
+    groups,
+    balance,
+    isLoading: tokensLoading || collectionIdsLoading || collectionsLoading,
+  };
+}
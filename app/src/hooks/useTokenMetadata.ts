@@ -0,0 +1,41 @@
+import { useQuery } from '@tanstack/react-query';
+
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+export type TokenMetadata = {
+  name?: string;
+  description?: string;
+  image?: string;
+  external_url?: string;
+  attributes?: { trait_type?: string; value?: string | number }[];
+};
+
+export function resolveMediaUri(uri?: string) {
+  if (!uri) return '';
+  if (uri.startsWith('ipfs://')) {
+    return `${IPFS_GATEWAY}${uri.slice('ipfs://'.length).replace(/^ipfs\//, '')}`;
+  }
+  return uri;
+}
+
+async function fetchTokenMetadata(tokenUri: string): Promise<TokenMetadata> {
+  if (tokenUri.startsWith('data:application/json;base64,')) {
+    return JSON.parse(atob(tokenUri.slice('data:application/json;base64,'.length)));
+  }
+
+  const response = await fetch(resolveMediaUri(tokenUri));
+  if (!response.ok) {
+    throw new Error(`Metadata request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+export function useTokenMetadata(tokenUri?: string) {
+  return useQuery({
+    queryKey: ['token-metadata', tokenUri],
+    queryFn: () => fetchTokenMetadata(tokenUri as string),
+    enabled: Boolean(tokenUri),
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+
+import { getTrayEntries, subscribeTray } from '../tx/tray';
+
+/**
+ * Transactions sent from this browser, newest first, including ones still pending from before a reload.
+ */
+export function useTxTray() {
+  return useSyncExternalStore(subscribeTray, getTrayEntries);
+}
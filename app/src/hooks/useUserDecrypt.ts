@@ -0,0 +1,44 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useAccount, useChainId } from 'wagmi';
+
+import {
+  getDecryptedValue,
+  getDecryptions,
+  subscribeDecryptions,
+  userDecryptHandles,
+} from '../fhevm/decryption';
+import { requireContractAddress, useContractAddress } from './useContractAddress';
+import { useEthersSigner } from './useEthersSigner';
+import { useZamaInstance } from './useZamaInstance';
+
+/**
+ * User decryption for the connected wallet. `decrypt` signs one EIP-712 authorization per session and batches the
+ * handles; `valueOf` returns what any component already decrypted, so every card showing a handle updates together.
+ */
+export function useUserDecrypt() {
+  const { instance } = useZamaInstance();
+  const signerPromise = useEthersSigner();
+  const { address } = useAccount();
+  const contractAddress = useContractAddress();
+  const chainId = useChainId();
+  const values = useSyncExternalStore(subscribeDecryptions, getDecryptions);
+
+  const decrypt = useCallback(
+    async (handles: string[]) => {
+      if (!instance) {
+        throw new Error('Encryption service is not ready.');
+      }
+      const signer = await signerPromise;
+      if (!signer || !address) {
+        throw new Error('Connect your wallet to decrypt.');
+      }
+      const scope = { chainId, contractAddress: requireContractAddress(contractAddress), userAddress: address };
+      return userDecryptHandles(instance, signer, scope, handles);
+    },
+    [address, chainId, contractAddress, instance, signerPromise]
+  );
+
+  const valueOf = useCallback((handle: string) => getDecryptedValue(values, address, handle), [address, values]);
+
+  return { decrypt, valueOf };
+}
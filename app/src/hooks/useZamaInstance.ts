@@ -1,43 +1,12 @@
-import { useState, useEffect } from 'react';
-import { createInstance,initSDK,SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
+import { useContext } from 'react';
 
-export function useZamaInstance() {
-  const [instance, setInstance] = useState<any>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    let mounted = true;
-
-    const initZama = async () => {
-      try {
-        setIsLoading(true);
-        setError(null);
-        await initSDK()
-
-        const zamaInstance = await createInstance(SepoliaConfig);
+import { ZamaContext } from '../fhevm/instance';
 
-        if (mounted) {
-          setInstance(zamaInstance);
-        }
-      } catch (err) {
-        console.error('Failed to initialize Zama instance:', err);
-        if (mounted) {
-          setError('Failed to initialize encryption service');
-        }
-      } finally {
-        if (mounted) {
-          setIsLoading(false);
-        }
-      }
-    };
-
-    initZama();
-
-    return () => {
-      mounted = false;
-    };
-  }, []);
-
-  return { instance, isLoading, error };
-}
\ No newline at end of file
+/** The app-wide FHEVM instance and its loading state, provided by `ZamaProvider`. */
+export function useZamaInstance() {
+  const context = useContext(ZamaContext);
+  if (!context) {
+    throw new Error('useZamaInstance must be used inside ZamaProvider');
+  }
+  return context;
+}
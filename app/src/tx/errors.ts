@@ -0,0 +1,108 @@
+import { isError } from 'ethers';
+
+import { novaMintInterface } from './events';
+
+/** User-facing explanation for every NovaMint custom error. */
+const ERROR_MESSAGES: Record<string, string> = {
+  InvalidCollection: 'This collection does not exist.',
+  SupplyExhausted: 'Not enough supply left for this mint.',
+  EmptyName: 'Give the collection a name.',
+  InvalidSupply: 'Supply must be greater than zero.',
+  InvalidQuantity: 'Choose at least one token.',
+  WalletLimitExceeded: 'This wallet has reached the per-wallet mint limit.',
+  NotCollectionOwner: 'Only the collection creator can do this.',
+  ZeroAddress: 'The zero address is not allowed here.',
+  InvalidToken: 'This token does not exist.',
+  NotTokenOwnerOrApproved: 'You do not own this token and are not approved to move it.',
+  IncorrectOwner: 'The token is not held by that address.',
+  InvalidOperator: 'You cannot approve yourself as an operator.',
+  InvalidReceiver: 'The receiving contract does not accept NovaMint tokens.',
+  AllowlistRequired: 'This collection is allowlist only. Use the allowlist mint.',
+  AllowlistNotEnabled: 'This collection has no allowlist enabled.',
+  LengthMismatch: 'Every allowlisted account needs an allowance.',
+  InvalidRequest: 'This request was already finalized or does not exist.',
+  IncorrectPayment: 'The ETH sent does not match the mint price.',
+  NothingToWithdraw: 'There is nothing to withdraw.',
+  PaymentFailed: 'The payout transfer failed.',
+  RevealNotRequested: 'The creator has not requested a reveal yet.',
+  ViewerAlreadyGranted: 'That address can already decrypt the hidden owner.',
+  NotViewer: 'That address is not a viewer.',
+  TooManyViewers: 'This collection already has the maximum number of viewers.',
+  InvalidOwnerAction: 'Rotate the hidden owner with the dedicated rotation action.',
+  NotPendingCreator: 'You have not been offered the creator role.',
+  OwnerIndexOutOfBounds: 'That wallet holds fewer tokens.',
+  InvalidMintWindow: 'The mint window must end after it starts.',
+  MintNotStarted: 'Minting has not started yet.',
+  MintEnded: 'Minting has ended.',
+  MintPaused: 'Minting is paused by the creator.',
+  InvalidRoyalty: 'Royalties are capped at 100%.',
+  AlreadyInitialized: 'NovaMint is already initialized.',
+  RequestNotExpired: 'This request can only be cancelled a day after it was made.',
+};
+
+/** A transaction that was sent but failed on-chain; the message is already user-facing. */
+export class TxError extends Error {
+  readonly hash: string;
+
+  constructor(message: string, hash: string) {
+    super(message);
+    this.name = 'TxError';
+    this.hash = hash;
+  }
+}
+
+/** Revert data nested in an error; wallets wrap it at different depths. */
+function findRevertData(error: unknown, depth = 0): string | undefined {
+  if (!error || typeof error !== 'object' || depth > 4) {
+    return undefined;
+  }
+  const { data, error: inner, info } = error as { data?: unknown; error?: unknown; info?: unknown };
+  if (typeof data === 'string' && data.startsWith('0x') && data.length >= 10) {
+    return data;
+  }
+  return findRevertData(data, depth + 1) ?? findRevertData(inner, depth + 1) ?? findRevertData(info, depth + 1);
+}
+
+/** Name of the NovaMint custom error a failed call or transaction reverted with, if any. */
+export function decodeRevertName(error: unknown): string | undefined {
+  if (isError(error, 'CALL_EXCEPTION') && error.revert?.name) {
+    return error.revert.name;
+  }
+  const data = findRevertData(error);
+  if (!data) {
+    return undefined;
+  }
+  try {
+    return novaMintInterface.parseError(data)?.name;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Turns anything a write flow can throw into a sentence for the status line: NovaMint custom errors, wallet
+ * rejections and funding problems get a friendly message, everything else falls back to ethers' short message.
+ */
+export function describeTxError(error: unknown, fallback = 'Transaction failed.'): string {
+  if (typeof error === 'string' || error instanceof TxError) {
+    return typeof error === 'string' ? error : error.message;
+  }
+  if (isError(error, 'ACTION_REJECTED')) {
+    return 'You rejected the request in your wallet.';
+  }
+  if (isError(error, 'INSUFFICIENT_FUNDS')) {
+    return 'This wallet cannot cover the payment and gas.';
+  }
+
+  const revertName = decodeRevertName(error);
+  if (revertName) {
+    return ERROR_MESSAGES[revertName] ?? `Transaction reverted with ${revertName}.`;
+  }
+  if (isError(error, 'CALL_EXCEPTION')) {
+    return error.reason ? `Transaction reverted: ${error.reason}` : 'Transaction reverted.';
+  }
+  if (error instanceof Error) {
+    return (error as Error & { shortMessage?: string }).shortMessage ?? error.message;
+  }
+  return fallback;
+}
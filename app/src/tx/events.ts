@@ -0,0 +1,34 @@
+import { Interface, type LogDescription } from 'ethers';
+
+import { CONTRACT_ABI } from '../config/contracts';
+
+export const novaMintInterface = new Interface(CONTRACT_ABI);
+
+type ReceiptLogs = { logs: readonly { address: string; topics: readonly string[]; data: string }[] };
+
+/**
+ * First NovaMint event called `name` in an ethers or viem receipt. Only logs emitted by the NovaMint proxy at `address`
+ * are decoded, so an event with the same signature from another contract in the same transaction is never mistaken
+ * for it.
+ */
+export function findEvent(receipt: ReceiptLogs, address: string, name: string): LogDescription | undefined {
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== address.toLowerCase()) {
+      continue;
+    }
+    try {
+      const event = novaMintInterface.parseLog({ topics: [...log.topics], data: log.data });
+      if (event?.name === name) {
+        return event;
+      }
+    } catch {
+      // Not a NovaMint event.
+    }
+  }
+  return undefined;
+}
+
+/** Id of the collection a `createCollection` receipt created. */
+export function createdCollectionId(receipt: ReceiptLogs, address: string): bigint | undefined {
+  return findEvent(receipt, address, 'CollectionCreated')?.args.id as bigint | undefined;
+}
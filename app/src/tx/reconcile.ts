@@ -0,0 +1,108 @@
+import type { InfiniteData, Query, QueryClient } from '@tanstack/react-query';
+import type { Config } from 'wagmi';
+import { readContract } from 'wagmi/actions';
+
+import { CONTRACT_ABI } from '../config/contracts';
+import type { Collection } from '../components/NovaMintApp';
+
+/** What a confirmed transaction changed, so only the affected reads are refreshed. */
+export type TxEffects = {
+  /** Collection whose state changed; its grid entry is replaced in place and its own reads reload. */
+  collectionId?: bigint;
+  /** Collections were added or changed creator, so the paged lists and totals reload. */
+  collections?: boolean;
+  /** Token ownership changed, so balances and holdings reload. */
+  tokens?: boolean;
+  /** Allowlist payments were credited or withdrawn, so refund balances reload. */
+  refunds?: boolean;
+};
+
+/** Reads keyed by a collection id as their first argument. */
+const COLLECTION_READS = new Set([
+  'getCollection',
+  'getHiddenOwnerHistory',
+  'hiddenOwner',
+  'isViewer',
+  'mintedBy',
+  'totalHiddenOwnerHistory',
+  'viewers',
+]);
+const TOTAL_READS = new Set(['totalCollections', 'totalCollectionsByCreator']);
+const TOKEN_READS = new Set(['balanceOf', 'ownerOf', 'tokenCollection', 'tokensOfOwner']);
+const REFUND_READS = new Set(['refundOf']);
+
+type ContractRead = { functionName?: string; args?: readonly unknown[] };
+type CollectionPages = InfiniteData<readonly { result?: unknown }[]>;
+
+/** Contract calls behind a wagmi `readContract` or `readContracts` query. */
+function contractReads(query: Query): ContractRead[] {
+  const [kind, parameters] = query.queryKey as [unknown, { contracts?: ContractRead[] } & ContractRead | undefined];
+  if (kind === 'readContract' && parameters) {
+    return [parameters];
+  }
+  if (kind === 'readContracts') {
+    return parameters?.contracts ?? [];
+  }
+  return [];
+}
+
+function isAffected(read: ContractRead, effects: TxEffects) {
+  const functionName = read.functionName ?? '';
+  return (
+    (effects.collectionId !== undefined &&
+      COLLECTION_READS.has(functionName) &&
+      read.args?.[0] === effects.collectionId) ||
+    (Boolean(effects.collections) && TOTAL_READS.has(functionName)) ||
+    (Boolean(effects.tokens) && TOKEN_READS.has(functionName)) ||
+    (Boolean(effects.refunds) && REFUND_READS.has(functionName))
+  );
+}
+
+/** Swaps the fresh collection into every loaded grid page that lists it. */
+function patchCollectionPages(queryClient: QueryClient, collection: Collection) {
+  queryClient.setQueriesData<CollectionPages>({ queryKey: ['infiniteReadContracts'] }, (data) =>
+    data
+      ? {
+          ...data,
+          pages: data.pages.map((page) =>
+            page.map((entry) => {
+              const collections = entry.result as Collection[] | undefined;
+              if (!collections?.some((item) => item.id === collection.id)) {
+                return entry;
+              }
+              return { ...entry, result: collections.map((item) => (item.id === collection.id ? collection : item)) };
+            })
+          ),
+        }
+      : data
+  );
+}
+
+/**
+ * Brings the react-query caches in line with a confirmed transaction. The changed collection is read once and patched
+ * into the grid instead of reloading every page; other reads are invalidated only when `effects` says they moved.
+ */
+export async function reconcileTx(
+  queryClient: QueryClient,
+  config: Config,
+  address: `0x${string}`,
+  effects: TxEffects
+) {
+  if (effects.collectionId !== undefined && !effects.collections) {
+    const collection = await readContract(config, {
+      address,
+      abi: CONTRACT_ABI,
+      functionName: 'getCollection',
+      args: [effects.collectionId],
+    });
+    // CollectionView structs decode into objects whose fields match Collection one-to-one.
+    patchCollectionPages(queryClient, collection as Collection);
+  }
+
+  await Promise.all([
+    queryClient.invalidateQueries({
+      predicate: (query) => contractReads(query).some((read) => isAffected(read, effects)),
+    }),
+    effects.collections ? queryClient.invalidateQueries({ queryKey: ['infiniteReadContracts'] }) : undefined,
+  ]);
+}
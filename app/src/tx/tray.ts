@@ -0,0 +1,126 @@
+import type { TxEffects } from './reconcile';
+
+export type TrayEntry = {
+  hash: `0x${string}`;
+  chainId: number;
+  /** NovaMint proxy the transaction was sent to. */
+  address: `0x${string}`;
+  state: 'pending' | 'confirmed' | 'failed';
+  /** What the transaction does, such as "Minting token...". */
+  label: string;
+  /** Outcome to show once it is mined. */
+  confirmedLabel?: string;
+  error?: string;
+  /** Collection card the transaction belongs to, as a decimal string so it survives JSON. */
+  collectionId?: string;
+  collections?: boolean;
+  tokens?: boolean;
+  refunds?: boolean;
+  submittedAt: number;
+};
+
+const STORAGE_KEY = 'novamint:transactions';
+const MAX_ENTRIES = 20;
+
+const listeners = new Set<() => void>();
+// Transactions a mounted flow is already waiting on; anything else pending was left behind by a reload.
+const watchedHashes = new Set<string>();
+let entries = load();
+
+function load(): TrayEntry[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function commit(next: TrayEntry[]) {
+  entries = next.slice(0, MAX_ENTRIES);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage is full or blocked; the tray still works for this page.
+  }
+  listeners.forEach((listener) => listener());
+}
+
+// Keep every open tab showing the same transactions.
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key === STORAGE_KEY) {
+      entries = load();
+      listeners.forEach((listener) => listener());
+    }
+  });
+}
+
+export function subscribeTray(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getTrayEntries() {
+  return entries;
+}
+
+/** Records a sent transaction that the calling flow waits on itself. */
+export function trackTx(entry: Omit<TrayEntry, 'state' | 'submittedAt'> & { effects?: TxEffects }) {
+  const { effects, ...rest } = entry;
+  watchedHashes.add(entry.hash);
+  commit([
+    {
+      ...rest,
+      state: 'pending',
+      collectionId: effects?.collectionId?.toString(),
+      collections: effects?.collections,
+      tokens: effects?.tokens,
+      refunds: effects?.refunds,
+      submittedAt: Date.now(),
+    },
+    ...entries.filter((item) => item.hash !== entry.hash),
+  ]);
+}
+
+export function settleTx(hash: string, update: Pick<TrayEntry, 'state'> & Partial<TrayEntry>) {
+  watchedHashes.delete(hash);
+  commit(entries.map((item) => (item.hash === hash ? { ...item, ...update } : item)));
+}
+
+/** Points an entry at the transaction the wallet replaced it with, such as a sped-up or cancelling resend. */
+export function replaceTx(hash: string, replacement: `0x${string}`) {
+  if (watchedHashes.delete(hash)) {
+    watchedHashes.add(replacement);
+  }
+  commit(entries.map((item) => (item.hash === hash ? { ...item, hash: replacement } : item)));
+}
+
+/** Takes over a pending transaction no mounted flow is watching; returns false if someone already is. */
+export function claimTx(hash: string) {
+  if (watchedHashes.has(hash)) {
+    return false;
+  }
+  watchedHashes.add(hash);
+  return true;
+}
+
+export function dismissTx(hash: string) {
+  commit(entries.filter((item) => item.hash !== hash));
+}
+
+export function clearSettledTxs() {
+  commit(entries.filter((item) => item.state === 'pending'));
+}
+
+/** Effects to reconcile for a stored entry, restored from their JSON form. */
+export function entryEffects(entry: TrayEntry): TxEffects {
+  return {
+    collectionId: entry.collectionId !== undefined ? BigInt(entry.collectionId) : undefined,
+    collections: entry.collections,
+    tokens: entry.tokens,
+    refunds: entry.refunds,
+  };
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Indexer base URL per chain id, as comma-separated `chainId=url` pairs; see src/config/indexer.ts. */
+  readonly VITE_INDEXER_URL?: string;
+}
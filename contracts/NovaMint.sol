@@ -1,75 +1,275 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.27;
 
-import {FHE, eaddress, externalEaddress} from "@fhevm/solidity/lib/FHE.sol";
-import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, ebool, euint32, eaddress, externalEaddress, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaConfig, ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {RoyaltyReceiverDeployer} from "./RoyaltyReceiver.sol";
+import {TokenUtils} from "./TokenUtils.sol";
 
 /// @title NovaMint - Encrypted owner NFT collections
 /// @notice Users can create limited NFT collections where the collection owner is stored as an encrypted address.
+/// @dev Deployed behind a transparent proxy. State variables are append-only: new ones go after `_initialized` and
+/// struct members are only ever added at the end (checked against `NovaMint.storage.json` in the tests).
 contract NovaMint is ZamaEthereumConfig {
     struct Collection {
         string name;
+        string description;
+        string image;
+        string baseURI;
         uint256 maxSupply;
+        uint256 maxPerWallet;
+        uint256 mintPrice;
+        uint256 balance;
         uint256 minted;
+        uint256 reserved;
         address creator;
+        address pendingCreator;
         uint256 baseTokenId;
+        uint256 mintStart;
+        uint256 mintEnd;
+        uint256 royaltyBps;
+        address royaltyReceiver;
         eaddress hiddenOwner;
+        address revealedOwner;
+        bool revealPending;
+        bool allowlistEnabled;
+        bool paused;
         bool exists;
     }
 
     struct CollectionView {
         uint256 id;
         string name;
+        string description;
+        string image;
+        string baseURI;
         uint256 maxSupply;
+        uint256 maxPerWallet;
+        uint256 mintPrice;
+        uint256 balance;
         uint256 minted;
         address creator;
+        address pendingCreator;
         uint256 baseTokenId;
+        uint256 mintStart;
+        uint256 mintEnd;
+        uint256 royaltyBps;
+        address royaltyReceiver;
         eaddress hiddenOwner;
+        address revealedOwner;
+        bool revealPending;
+        bool allowlistEnabled;
+        bool paused;
+    }
+
+    struct CollectionMetadata {
+        string description;
+        string image;
+        string baseURI;
+    }
+
+    struct MintWindow {
+        uint256 start;
+        uint256 end;
+    }
+
+    struct AllowlistMintRequest {
+        uint256 collectionId;
+        address minter;
+        uint256 quantity;
+        uint256 payment;
+        ebool approved;
+        bool pending;
+        uint256 requestedAt;
+    }
+
+    enum OwnerActionKind {
+        RotateHiddenOwner,
+        Withdraw,
+        SetMintPrice,
+        SetAllowlistEnabled
+    }
+
+    enum OwnerActionStatus {
+        None,
+        Pending,
+        Executed,
+        Rejected
+    }
+
+    struct OwnerAction {
+        uint256 collectionId;
+        address caller;
+        OwnerActionKind kind;
+        OwnerActionStatus status;
+        uint256 value;
+        eaddress newHiddenOwner;
+        eaddress ownerHandle;
+        ebool authorized;
+        uint256 ownerEpoch;
+    }
+
+    struct WithdrawalRequest {
+        uint256 collectionId;
+        address recipient;
+        uint256 amount;
+        ebool matches;
+        bool pending;
+    }
+
+    struct HiddenOwnerRecord {
+        eaddress hiddenOwner;
+        uint256 timestamp;
     }
 
     string private constant _NAME = "NovaMint";
     string private constant _SYMBOL = "NOVA";
+    uint256 private constant _MAX_VIEWERS = 20;
+    uint256 private constant _MAX_ROYALTY_BPS = 10_000;
+    uint256 private constant _ALLOWLIST_REQUEST_TIMEOUT = 1 days;
 
     uint256 private _collectionCount;
-    uint256 private _nextTokenId = 1;
+    uint256 private _nextTokenId;
+    uint256 private _allowlistRequestCount;
+    uint256 private _withdrawalRequestCount;
+    uint256 private _ownerActionCount;
 
     mapping(uint256 => Collection) private _collections;
     mapping(uint256 => uint256) private _tokenToCollection;
     mapping(uint256 => address) private _owners;
     mapping(address => uint256) private _balances;
+    mapping(uint256 => address) private _tokenApprovals;
+    mapping(address => mapping(address => bool)) private _operatorApprovals;
+    mapping(uint256 => mapping(address => uint256)) private _mintedPerWallet;
+    mapping(uint256 => mapping(address => euint32)) private _allowances;
+    mapping(uint256 => AllowlistMintRequest) private _allowlistRequests;
+    mapping(uint256 => WithdrawalRequest) private _withdrawalRequests;
+    mapping(uint256 => OwnerAction) private _ownerActions;
+    mapping(uint256 => address[]) private _viewers;
+    mapping(address => uint256[]) private _creatorCollections;
+    mapping(uint256 => mapping(address => bool)) private _isViewer;
+    mapping(address => uint256[]) private _ownedTokens;
+    mapping(uint256 => uint256) private _ownedTokenIndex;
+    bool private _initialized;
+    mapping(uint256 => HiddenOwnerRecord[]) private _hiddenOwnerHistory;
+    mapping(address => uint256) private _refunds;
 
     event CollectionCreated(uint256 indexed id, address indexed creator, string name, uint256 maxSupply, eaddress hiddenOwner);
     event HiddenOwnerUpdated(uint256 indexed id, eaddress hiddenOwner);
+    event HiddenOwnerRevealRequested(uint256 indexed id, eaddress hiddenOwner);
+    event HiddenOwnerRevealed(uint256 indexed id, address owner);
+    event OwnerActionRequested(
+        uint256 indexed actionId,
+        uint256 indexed collectionId,
+        address indexed caller,
+        OwnerActionKind kind,
+        ebool authorized
+    );
+    event OwnerActionFinalized(uint256 indexed actionId, bool executed);
+    event CreatorTransferStarted(uint256 indexed id, address indexed creator, address indexed pendingCreator);
+    event CreatorTransferred(uint256 indexed id, address indexed previousCreator, address indexed newCreator);
+    event ViewerGranted(uint256 indexed id, address indexed viewer);
+    event ViewerRevoked(uint256 indexed id, address indexed viewer);
+    event CollectionMetadataUpdated(uint256 indexed id, string description, string image, string baseURI);
+    event AllowlistUpdated(uint256 indexed id, address[] accounts);
+    event AllowlistStatusChanged(uint256 indexed id, bool enabled);
+    event AllowlistMintRequested(
+        uint256 indexed requestId,
+        uint256 indexed collectionId,
+        address indexed minter,
+        uint256 quantity,
+        ebool approved
+    );
+    event AllowlistMintFinalized(uint256 indexed requestId, bool approved);
+    event AllowlistMintCancelled(uint256 indexed requestId);
+    event RefundWithdrawn(address indexed account, uint256 amount);
+    event MintPriceUpdated(uint256 indexed id, uint256 mintPrice);
+    event MintWindowUpdated(uint256 indexed id, uint256 mintStart, uint256 mintEnd);
+    event PauseStatusChanged(uint256 indexed id, bool paused);
+    event RoyaltyUpdated(uint256 indexed id, uint256 royaltyBps, address receiver);
+    event RoyaltyReceived(uint256 indexed id, uint256 amount);
+    event WithdrawalRequested(uint256 indexed requestId, uint256 indexed collectionId, uint256 amount, ebool matches);
+    event WithdrawalFinalized(uint256 indexed requestId, bool paid);
+    event WithdrawalCancelled(uint256 indexed requestId);
     event Minted(uint256 indexed collectionId, uint256 indexed tokenId, address indexed to);
     event Transfer(address indexed from, address indexed to, uint256 indexed tokenId);
+    event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId);
+    event ApprovalForAll(address indexed owner, address indexed operator, bool approved);
 
     error InvalidCollection();
     error SupplyExhausted();
     error EmptyName();
     error InvalidSupply();
+    error InvalidQuantity();
+    error WalletLimitExceeded();
     error NotCollectionOwner();
     error ZeroAddress();
     error InvalidToken();
+    error NotTokenOwnerOrApproved();
+    error IncorrectOwner();
+    error InvalidOperator();
+    error InvalidReceiver();
+    error AllowlistRequired();
+    error AllowlistNotEnabled();
+    error LengthMismatch();
+    error InvalidRequest();
+    error IncorrectPayment();
+    error NothingToWithdraw();
+    error PaymentFailed();
+    error RevealNotRequested();
+    error ViewerAlreadyGranted();
+    error NotViewer();
+    error TooManyViewers();
+    error InvalidOwnerAction();
+    error NotPendingCreator();
+    error OwnerIndexOutOfBounds();
+    error InvalidMintWindow();
+    error MintNotStarted();
+    error MintEnded();
+    error MintPaused();
+    error InvalidRoyalty();
+    error AlreadyInitialized();
+    error RequestNotExpired();
 
     modifier onlyCollectionOwner(uint256 id) {
-        if (!_collections[id].exists) {
-            revert InvalidCollection();
-        }
-        if (_collections[id].creator != msg.sender) {
-            revert NotCollectionOwner();
-        }
+        _checkCollectionOwner(id);
         _;
     }
 
+    /// @notice Lock the implementation so it can only be used through a proxy.
+    constructor() {
+        _initialized = true;
+    }
+
+    /// @notice Initialize proxy storage: the FHEVM coprocessor config and the first token id.
+    function initialize() external {
+        if (_initialized) {
+            revert AlreadyInitialized();
+        }
+        _initialized = true;
+        _nextTokenId = 1;
+        FHE.setCoprocessor(ZamaConfig.getEthereumCoprocessorConfig());
+    }
+
     /// @notice Create a new NFT collection with an encrypted owner field.
     /// @param collectionName Collection name.
+    /// @param metadata Description, image URI and token base URI for the collection.
     /// @param maxSupply Maximum mintable tokens for the collection.
+    /// @param maxPerWallet Maximum tokens a single wallet may mint (0 for no limit).
+    /// @param mintPrice Price per token in wei (0 for a free mint).
+    /// @param mintWindow Start and end timestamps for minting (0 for no bound).
+    /// @param royaltyBps Resale royalty in basis points (0 for none).
     /// @param hiddenOwnerInput Encrypted owner address handle produced off-chain.
     /// @param inputProof Input proof associated with the encrypted address.
     /// @return collectionId Newly created collection id.
     function createCollection(
         string calldata collectionName,
+        CollectionMetadata calldata metadata,
         uint256 maxSupply,
+        uint256 maxPerWallet,
+        uint256 mintPrice,
+        MintWindow calldata mintWindow,
+        uint256 royaltyBps,
         externalEaddress hiddenOwnerInput,
         bytes calldata inputProof
     ) external returns (uint256 collectionId) {
@@ -79,24 +279,37 @@ contract NovaMint is ZamaEthereumConfig {
         if (maxSupply == 0) {
             revert InvalidSupply();
         }
+        _checkMintWindow(mintWindow);
 
         eaddress encryptedOwner = FHE.fromExternal(hiddenOwnerInput, inputProof);
         FHE.allowThis(encryptedOwner);
         FHE.allow(encryptedOwner, msg.sender);
 
         collectionId = ++_collectionCount;
-        uint256 baseId = _nextTokenId;
-        _nextTokenId += maxSupply;
 
-        _collections[collectionId] = Collection({
-            name: collectionName,
-            maxSupply: maxSupply,
-            minted: 0,
-            creator: msg.sender,
-            baseTokenId: baseId,
-            hiddenOwner: encryptedOwner,
-            exists: true
-        });
+        // Scoped so the storage pointer does not push the parameters past the stack limit.
+        {
+            Collection storage collection = _collections[collectionId];
+            collection.name = collectionName;
+            collection.description = metadata.description;
+            collection.image = metadata.image;
+            collection.baseURI = metadata.baseURI;
+            collection.maxSupply = maxSupply;
+            collection.maxPerWallet = maxPerWallet;
+            collection.mintPrice = mintPrice;
+            collection.creator = msg.sender;
+            collection.baseTokenId = _nextTokenId;
+            collection.mintStart = mintWindow.start;
+            collection.mintEnd = mintWindow.end;
+            collection.hiddenOwner = encryptedOwner;
+            collection.exists = true;
+        }
+        _nextTokenId += maxSupply;
+        _creatorCollections[msg.sender].push(collectionId);
+        _recordHiddenOwner(collectionId, encryptedOwner);
+        if (royaltyBps != 0) {
+            _setRoyalty(collectionId, royaltyBps);
+        }
 
         emit CollectionCreated(collectionId, msg.sender, collectionName, maxSupply, encryptedOwner);
     }
@@ -110,74 +323,592 @@ contract NovaMint is ZamaEthereumConfig {
         externalEaddress hiddenOwnerInput,
         bytes calldata inputProof
     ) external onlyCollectionOwner(collectionId) {
-        eaddress encryptedOwner = FHE.fromExternal(hiddenOwnerInput, inputProof);
+        _setHiddenOwner(collectionId, FHE.fromExternal(hiddenOwnerInput, inputProof));
+    }
 
-        _collections[collectionId].hiddenOwner = encryptedOwner;
+    /// @notice Ask to perform a privileged action as the encrypted hidden owner instead of the creator.
+    /// @dev `msg.sender` is compared with the hidden owner under FHE and only the boolean result is made publicly
+    /// decryptable. The action runs in `finalizeOwnerAction` once that result has been proven. That result is public:
+    /// once an action runs, anyone can tell that its caller is the hidden owner, so the address stops being hidden.
+    /// @param collectionId Collection id to act on.
+    /// @param kind Action to perform; use `requestHiddenOwnerRotation` to rotate the hidden owner.
+    /// @param value New mint price for `SetMintPrice`, 1 or 0 for `SetAllowlistEnabled`, ignored for `Withdraw`.
+    /// @return actionId Identifier of the pending action.
+    function requestOwnerAction(
+        uint256 collectionId,
+        OwnerActionKind kind,
+        uint256 value
+    ) external returns (uint256 actionId) {
+        if (kind == OwnerActionKind.RotateHiddenOwner) {
+            revert InvalidOwnerAction();
+        }
+        eaddress unset;
+        return _requestOwnerAction(collectionId, kind, value, unset);
+    }
 
-        FHE.allowThis(encryptedOwner);
-        FHE.allow(encryptedOwner, msg.sender);
+    /// @notice Ask to rotate the hidden owner as the current encrypted hidden owner.
+    /// @param collectionId Collection id to update.
+    /// @param hiddenOwnerInput Encrypted new owner address produced off-chain by the caller.
+    /// @param inputProof Input proof associated with the encrypted address.
+    /// @return actionId Identifier of the pending action.
+    function requestHiddenOwnerRotation(
+        uint256 collectionId,
+        externalEaddress hiddenOwnerInput,
+        bytes calldata inputProof
+    ) external returns (uint256 actionId) {
+        eaddress newHiddenOwner = FHE.fromExternal(hiddenOwnerInput, inputProof);
+        FHE.allowThis(newHiddenOwner);
+        return _requestOwnerAction(collectionId, OwnerActionKind.RotateHiddenOwner, 0, newHiddenOwner);
+    }
 
-        emit HiddenOwnerUpdated(collectionId, encryptedOwner);
+    /// @notice Run or reject a pending hidden-owner action once the caller check has been publicly decrypted.
+    /// @dev Callable by anyone. Actions are rejected if the caller is not the hidden owner, or if the hidden owner
+    /// was rotated after the request. Only a rotation counts: viewer revocations and creator hand-overs re-encrypt the
+    /// same owner under a new handle and leave pending actions valid.
+    /// @param actionId Pending action id.
+    /// @param abiEncodedCleartexts ABI-encoded decrypted caller check.
+    /// @param decryptionProof KMS decryption proof for the caller check.
+    function finalizeOwnerAction(
+        uint256 actionId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        OwnerAction storage action = _ownerActions[actionId];
+        if (action.status != OwnerActionStatus.Pending) {
+            revert InvalidRequest();
+        }
+
+        bool authorized = _verifyDecryptedBool(action.authorized, abiEncodedCleartexts, decryptionProof);
+        bool current = action.ownerEpoch == _hiddenOwnerHistory[action.collectionId].length;
+        bool executed = authorized && current;
+
+        action.status = executed ? OwnerActionStatus.Executed : OwnerActionStatus.Rejected;
+        if (executed) {
+            _executeOwnerAction(action);
+        }
+
+        emit OwnerActionFinalized(actionId, executed);
     }
 
-    /// @notice Mint a token from a collection.
-    /// @param collectionId Collection id to mint from.
-    /// @return tokenId Newly minted token id.
-    function mint(uint256 collectionId) external returns (uint256 tokenId) {
+    /// @notice Let another address decrypt the hidden owner of a collection.
+    /// @dev Viewers are re-granted access to every future hidden owner handle until they are revoked.
+    /// @param collectionId Collection id to share.
+    /// @param viewer Address that may decrypt the hidden owner.
+    function grantViewer(uint256 collectionId, address viewer) external onlyCollectionOwner(collectionId) {
+        if (viewer == address(0)) {
+            revert ZeroAddress();
+        }
+        if (_isViewer[collectionId][viewer]) {
+            revert ViewerAlreadyGranted();
+        }
+        if (_viewers[collectionId].length >= _MAX_VIEWERS) {
+            revert TooManyViewers();
+        }
+
+        _isViewer[collectionId][viewer] = true;
+        _viewers[collectionId].push(viewer);
+        FHE.allow(_collections[collectionId].hiddenOwner, viewer);
+
+        emit ViewerGranted(collectionId, viewer);
+    }
+
+    /// @notice Remove a viewer's access to the hidden owner of a collection.
+    /// @dev ACL grants cannot be withdrawn from a handle, so the hidden owner is re-encrypted under a fresh handle
+    /// that only the creator and the remaining viewers may decrypt.
+    /// @param collectionId Collection id to update.
+    /// @param viewer Address to revoke.
+    function revokeViewer(uint256 collectionId, address viewer) external onlyCollectionOwner(collectionId) {
+        if (!_isViewer[collectionId][viewer]) {
+            revert NotViewer();
+        }
+
+        address[] storage collectionViewers = _viewers[collectionId];
+        for (uint256 i = 0; i < collectionViewers.length; i++) {
+            if (collectionViewers[i] == viewer) {
+                collectionViewers[i] = collectionViewers[collectionViewers.length - 1];
+                collectionViewers.pop();
+                break;
+            }
+        }
+        delete _isViewer[collectionId][viewer];
+
+        emit ViewerRevoked(collectionId, viewer);
+        _refreshHiddenOwner(collectionId);
+    }
+
+    /// @notice Start handing the creator role of a collection to another address.
+    /// @dev The transfer completes when `newCreator` calls `acceptCreator`. Pass the zero address to cancel.
+    /// @param collectionId Collection id to transfer.
+    /// @param newCreator Address that may accept the creator role.
+    function transferCreator(uint256 collectionId, address newCreator) external onlyCollectionOwner(collectionId) {
+        _collections[collectionId].pendingCreator = newCreator;
+
+        emit CreatorTransferStarted(collectionId, msg.sender, newCreator);
+    }
+
+    /// @notice Accept a pending creator role transfer.
+    /// @dev The hidden owner moves to a fresh handle that the new creator, not the previous one, may decrypt. Past
+    /// hidden owners are granted separately through `grantHiddenOwnerHistory`, so a long history never makes the
+    /// hand-over run out of gas.
+    /// @param collectionId Collection id to accept.
+    function acceptCreator(uint256 collectionId) external {
+        Collection storage collection = _existingCollection(collectionId);
+        if (collection.pendingCreator != msg.sender || msg.sender == address(0)) {
+            revert NotPendingCreator();
+        }
+
+        address previousCreator = collection.creator;
+        collection.creator = msg.sender;
+        collection.pendingCreator = address(0);
+        _removeCreatorCollection(previousCreator, collectionId);
+        _creatorCollections[msg.sender].push(collectionId);
+
+        emit CreatorTransferred(collectionId, previousCreator, msg.sender);
+        _refreshHiddenOwner(collectionId);
+    }
+
+    /// @notice Let the creator decrypt a page of the collection's past hidden owners.
+    /// @dev A creator who took over the role calls this, page by page, to read the history recorded before them.
+    /// @param collectionId Collection id whose history to grant.
+    /// @param offset Number of records to skip.
+    /// @param limit Maximum number of records to grant.
+    function grantHiddenOwnerHistory(
+        uint256 collectionId,
+        uint256 offset,
+        uint256 limit
+    ) external onlyCollectionOwner(collectionId) {
+        HiddenOwnerRecord[] storage history = _hiddenOwnerHistory[collectionId];
+        uint256 size = _pageSize(history.length, offset, limit);
+        for (uint256 i = 0; i < size; i++) {
+            FHE.allow(history[offset + i].hiddenOwner, msg.sender);
+        }
+    }
+
+    /// @notice Give up the creator role of a collection for good.
+    /// @dev Creator-only functions become unusable; the hidden owner can still act through `requestOwnerAction`.
+    /// @param collectionId Collection id to renounce.
+    function renounceCreator(uint256 collectionId) external onlyCollectionOwner(collectionId) {
         Collection storage collection = _collections[collectionId];
-        if (!collection.exists) {
-            revert InvalidCollection();
+        collection.creator = address(0);
+        collection.pendingCreator = address(0);
+        _removeCreatorCollection(msg.sender, collectionId);
+
+        emit CreatorTransferred(collectionId, msg.sender, address(0));
+        _refreshHiddenOwner(collectionId);
+    }
+
+    /// @notice Make the current hidden owner publicly decryptable so it can be revealed on-chain.
+    /// @dev Rotating the hidden owner afterwards cancels a pending reveal and hides the new owner again.
+    /// @param collectionId Collection id to reveal.
+    function requestReveal(uint256 collectionId) external onlyCollectionOwner(collectionId) {
+        Collection storage collection = _collections[collectionId];
+        collection.revealPending = true;
+
+        FHE.makePubliclyDecryptable(collection.hiddenOwner);
+
+        emit HiddenOwnerRevealRequested(collectionId, collection.hiddenOwner);
+    }
+
+    /// @notice Record the revealed hidden owner once its public decryption proof is available.
+    /// @dev Callable by anyone; the proof must match the hidden owner handle marked by `requestReveal`.
+    /// @param collectionId Collection id being revealed.
+    /// @param abiEncodedCleartexts ABI-encoded decrypted hidden owner.
+    /// @param decryptionProof KMS decryption proof for the hidden owner.
+    function finalizeReveal(
+        uint256 collectionId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        Collection storage collection = _collections[collectionId];
+        if (!collection.revealPending) {
+            revert RevealNotRequested();
         }
-        if (collection.minted >= collection.maxSupply) {
-            revert SupplyExhausted();
+
+        _checkDecryption(FHE.toBytes32(collection.hiddenOwner), abiEncodedCleartexts, decryptionProof);
+        address owner = abi.decode(abiEncodedCleartexts, (address));
+        collection.revealedOwner = owner;
+        collection.revealPending = false;
+
+        emit HiddenOwnerRevealed(collectionId, owner);
+    }
+
+    /// @notice Update the description, image and token base URI of a collection.
+    /// @param collectionId Collection id to update.
+    /// @param metadata New collection metadata.
+    function setCollectionMetadata(
+        uint256 collectionId,
+        CollectionMetadata calldata metadata
+    ) external onlyCollectionOwner(collectionId) {
+        Collection storage collection = _collections[collectionId];
+        collection.description = metadata.description;
+        collection.image = metadata.image;
+        collection.baseURI = metadata.baseURI;
+
+        emit CollectionMetadataUpdated(collectionId, metadata.description, metadata.image, metadata.baseURI);
+    }
+
+    /// @notice Update the per-token mint price of a collection.
+    /// @param collectionId Collection id to update.
+    /// @param mintPrice New price per token in wei.
+    function setMintPrice(uint256 collectionId, uint256 mintPrice) external onlyCollectionOwner(collectionId) {
+        _setMintPrice(collectionId, mintPrice);
+    }
+
+    /// @notice Start releasing a collection's mint proceeds to its hidden owner.
+    /// @dev The recipient is compared with the encrypted hidden owner under FHE; only the boolean result is made
+    /// publicly decryptable, never the hidden owner handle. The balance is held until `finalizeWithdrawal`.
+    /// @param collectionId Collection id to withdraw from.
+    /// @param recipient Address expected to be the hidden owner.
+    /// @return requestId Identifier of the pending withdrawal.
+    function requestWithdrawal(
+        uint256 collectionId,
+        address recipient
+    ) external onlyCollectionOwner(collectionId) returns (uint256 requestId) {
+        if (recipient == address(0)) {
+            revert ZeroAddress();
+        }
+        Collection storage collection = _collections[collectionId];
+        uint256 amount = collection.balance;
+        if (amount == 0) {
+            revert NothingToWithdraw();
+        }
+        collection.balance = 0;
+
+        ebool matches = FHE.eq(collection.hiddenOwner, recipient);
+        FHE.allowThis(matches);
+        FHE.makePubliclyDecryptable(matches);
+
+        requestId = ++_withdrawalRequestCount;
+        _withdrawalRequests[requestId] = WithdrawalRequest({
+            collectionId: collectionId,
+            recipient: recipient,
+            amount: amount,
+            matches: matches,
+            pending: true
+        });
+
+        emit WithdrawalRequested(requestId, collectionId, amount, matches);
+    }
+
+    /// @notice Pay out a pending withdrawal once the recipient check has been publicly decrypted.
+    /// @dev Callable by anyone. If the recipient is not the hidden owner the amount returns to the collection balance.
+    /// @param requestId Pending withdrawal id.
+    /// @param abiEncodedCleartexts ABI-encoded decrypted recipient check.
+    /// @param decryptionProof KMS decryption proof for the recipient check.
+    function finalizeWithdrawal(
+        uint256 requestId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        WithdrawalRequest storage request = _closeWithdrawal(requestId);
+        bool matches = _verifyDecryptedBool(request.matches, abiEncodedCleartexts, decryptionProof);
+        if (matches) {
+            _sendValue(request.recipient, request.amount);
+        } else {
+            _returnWithdrawal(request);
         }
 
-        tokenId = collection.baseTokenId + collection.minted;
-        collection.minted += 1;
+        emit WithdrawalFinalized(requestId, matches);
+    }
+
+    /// @notice Drop a pending withdrawal and return its amount to the collection balance.
+    /// @dev Lets the creator recover from a request whose decryption never arrives, or retry with another recipient.
+    /// @param requestId Pending withdrawal id.
+    function cancelWithdrawal(uint256 requestId) external {
+        WithdrawalRequest storage request = _closeWithdrawal(requestId);
+        _checkCollectionOwner(request.collectionId);
+        _returnWithdrawal(request);
+
+        emit WithdrawalCancelled(requestId);
+    }
 
-        _owners[tokenId] = msg.sender;
-        _balances[msg.sender] += 1;
-        _tokenToCollection[tokenId] = collectionId;
+    /// @notice Upload encrypted mint allowances for a set of addresses.
+    /// @dev Allowances stay encrypted; the creator and each listed address can decrypt their own entry.
+    /// Uploading a zero allowance removes an address from the list without revealing it.
+    /// @param collectionId Collection id to update.
+    /// @param accounts Addresses to set allowances for.
+    /// @param allowanceInputs Encrypted allowance handles, one per account.
+    /// @param inputProof Input proof associated with the encrypted allowances.
+    function setAllowlist(
+        uint256 collectionId,
+        address[] calldata accounts,
+        externalEuint32[] calldata allowanceInputs,
+        bytes calldata inputProof
+    ) external onlyCollectionOwner(collectionId) {
+        if (accounts.length != allowanceInputs.length) {
+            revert LengthMismatch();
+        }
+
+        for (uint256 i = 0; i < accounts.length; i++) {
+            euint32 allowance = FHE.fromExternal(allowanceInputs[i], inputProof);
+            _storeAllowance(collectionId, accounts[i], allowance);
+        }
+
+        emit AllowlistUpdated(collectionId, accounts);
+    }
+
+    /// @notice Schedule when minting opens and closes for a collection.
+    /// @param collectionId Collection id to update.
+    /// @param mintWindow Start and end timestamps for minting (0 for no bound).
+    function setMintWindow(
+        uint256 collectionId,
+        MintWindow calldata mintWindow
+    ) external onlyCollectionOwner(collectionId) {
+        _checkMintWindow(mintWindow);
+        Collection storage collection = _collections[collectionId];
+        collection.mintStart = mintWindow.start;
+        collection.mintEnd = mintWindow.end;
+        emit MintWindowUpdated(collectionId, mintWindow.start, mintWindow.end);
+    }
+
+    /// @notice Update the resale royalty of a collection.
+    /// @param collectionId Collection id to update.
+    /// @param royaltyBps Resale royalty in basis points (0 for none).
+    function setRoyalty(uint256 collectionId, uint256 royaltyBps) external onlyCollectionOwner(collectionId) {
+        _setRoyalty(collectionId, royaltyBps);
+    }
+
+    /// @notice Credit a royalty payment to a collection's balance, withdrawable only by its hidden owner.
+    /// @dev Called by `RoyaltyReceiver.sweep`, but anyone may pay royalties directly.
+    /// @param collectionId Collection id to credit.
+    function depositRoyalty(uint256 collectionId) external payable {
+        Collection storage collection = _existingCollection(collectionId);
+        collection.balance += msg.value;
+
+        emit RoyaltyReceived(collectionId, msg.value);
+    }
+
+    /// @notice Stop all minting from a collection until it is unpaused.
+    /// @param collectionId Collection id to pause.
+    function pause(uint256 collectionId) external onlyCollectionOwner(collectionId) {
+        _setPaused(collectionId, true);
+    }
+
+    /// @notice Resume minting from a paused collection.
+    /// @param collectionId Collection id to unpause.
+    function unpause(uint256 collectionId) external onlyCollectionOwner(collectionId) {
+        _setPaused(collectionId, false);
+    }
+
+    /// @notice Turn allowlist-gated minting on or off for a collection.
+    /// @param collectionId Collection id to update.
+    /// @param enabled Whether minting requires an encrypted allowance.
+    function setAllowlistEnabled(uint256 collectionId, bool enabled) external onlyCollectionOwner(collectionId) {
+        _setAllowlistEnabled(collectionId, enabled);
+    }
+
+    /// @notice Request an allowlist mint; eligibility is checked against the encrypted allowance.
+    /// @dev Supply and wallet limits are reserved immediately. The encrypted result is made publicly decryptable
+    /// and the mint completes in `finalizeAllowlistMint` once the decryption proof is available.
+    /// @param collectionId Collection id to mint from.
+    /// @param quantity Number of tokens to mint.
+    /// @return requestId Identifier of the pending mint request.
+    function requestAllowlistMint(uint256 collectionId, uint256 quantity) external payable returns (uint256 requestId) {
+        Collection storage collection = _existingCollection(collectionId);
+        if (!collection.allowlistEnabled) {
+            revert AllowlistNotEnabled();
+        }
+        if (quantity > type(uint32).max) {
+            revert InvalidQuantity();
+        }
+        _reserveMint(collection, collectionId, msg.sender, quantity);
+        collection.reserved += quantity;
+
+        euint32 allowance = _allowances[collectionId][msg.sender];
+        ebool approved = FHE.ge(allowance, uint32(quantity));
+        euint32 remaining = FHE.select(approved, FHE.sub(allowance, uint32(quantity)), allowance);
+        _storeAllowance(collectionId, msg.sender, remaining);
+        FHE.allowThis(approved);
+        FHE.makePubliclyDecryptable(approved);
+
+        requestId = ++_allowlistRequestCount;
+        _allowlistRequests[requestId] = AllowlistMintRequest({
+            collectionId: collectionId,
+            minter: msg.sender,
+            quantity: quantity,
+            payment: msg.value,
+            approved: approved,
+            pending: true,
+            requestedAt: block.timestamp
+        });
+
+        emit AllowlistMintRequested(requestId, collectionId, msg.sender, quantity, approved);
+    }
+
+    /// @notice Complete an allowlist mint with the public decryption of its eligibility result.
+    /// @dev Callable by anyone; tokens always go to the requesting minter. Rejected payments are credited to the
+    /// minter's refund balance, withdrawn with `withdrawRefund`.
+    /// @param requestId Pending request id.
+    /// @param abiEncodedCleartexts ABI-encoded decrypted eligibility flag.
+    /// @param decryptionProof KMS decryption proof for the eligibility flag.
+    function finalizeAllowlistMint(
+        uint256 requestId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        AllowlistMintRequest storage request = _allowlistRequests[requestId];
+        if (!request.pending) {
+            revert InvalidRequest();
+        }
+
+        bool approved = _verifyDecryptedBool(request.approved, abiEncodedCleartexts, decryptionProof);
+
+        request.pending = false;
+        Collection storage collection = _collections[request.collectionId];
+        collection.reserved -= request.quantity;
+        if (approved) {
+            collection.balance += request.payment;
+            _mintTokens(collection, request.collectionId, request.minter, request.quantity);
+        } else {
+            _refundAllowlistMint(request);
+        }
+
+        emit AllowlistMintFinalized(requestId, approved);
+    }
+
+    /// @notice Cancel an allowlist mint that was never finalized, releasing its reserved supply.
+    /// @dev Callable by anyone once `_ALLOWLIST_REQUEST_TIMEOUT` has passed since the request. The allowance taken by
+    /// the request is restored under FHE and the payment is credited to the minter's refund balance.
+    /// @param requestId Pending request id.
+    function cancelAllowlistMint(uint256 requestId) external {
+        AllowlistMintRequest storage request = _allowlistRequests[requestId];
+        if (!request.pending) {
+            revert InvalidRequest();
+        }
+        if (block.timestamp < request.requestedAt + _ALLOWLIST_REQUEST_TIMEOUT) {
+            revert RequestNotExpired();
+        }
+
+        request.pending = false;
+        uint256 collectionId = request.collectionId;
+        _collections[collectionId].reserved -= request.quantity;
+        euint32 allowance = _allowances[collectionId][request.minter];
+        euint32 restored = FHE.select(request.approved, FHE.add(allowance, uint32(request.quantity)), allowance);
+        _storeAllowance(collectionId, request.minter, restored);
+        _refundAllowlistMint(request);
+
+        emit AllowlistMintCancelled(requestId);
+    }
+
+    /// @notice Withdraw the caller's refunded allowlist payments.
+    function withdrawRefund() external {
+        uint256 amount = _refunds[msg.sender];
+        if (amount == 0) {
+            revert NothingToWithdraw();
+        }
+        _refunds[msg.sender] = 0;
+        _sendValue(msg.sender, amount);
+
+        emit RefundWithdrawn(msg.sender, amount);
+    }
+
+    /// @notice Mint a token from a collection.
+    /// @param collectionId Collection id to mint from.
+    /// @return tokenId Newly minted token id.
+    function mint(uint256 collectionId) external payable returns (uint256 tokenId) {
+        return _mintBatch(collectionId, 1);
+    }
 
-        emit Minted(collectionId, tokenId, msg.sender);
-        emit Transfer(address(0), msg.sender, tokenId);
+    /// @notice Mint several tokens from a collection in one transaction.
+    /// @param collectionId Collection id to mint from.
+    /// @param quantity Number of tokens to mint.
+    /// @return firstTokenId First token id of the contiguous range that was minted.
+    function mintBatch(uint256 collectionId, uint256 quantity) external payable returns (uint256 firstTokenId) {
+        return _mintBatch(collectionId, quantity);
     }
 
     /// @notice Returns summary for a collection id.
     function getCollection(uint256 collectionId) public view returns (CollectionView memory) {
-        Collection memory collection = _collections[collectionId];
-        if (!collection.exists) {
-            revert InvalidCollection();
-        }
+        Collection storage collection = _existingCollection(collectionId);
 
         return
             CollectionView({
                 id: collectionId,
                 name: collection.name,
+                description: collection.description,
+                image: collection.image,
+                baseURI: collection.baseURI,
                 maxSupply: collection.maxSupply,
+                maxPerWallet: collection.maxPerWallet,
+                mintPrice: collection.mintPrice,
+                balance: collection.balance,
                 minted: collection.minted,
                 creator: collection.creator,
+                pendingCreator: collection.pendingCreator,
                 baseTokenId: collection.baseTokenId,
-                hiddenOwner: collection.hiddenOwner
+                mintStart: collection.mintStart,
+                mintEnd: collection.mintEnd,
+                royaltyBps: collection.royaltyBps,
+                royaltyReceiver: collection.royaltyReceiver,
+                hiddenOwner: collection.hiddenOwner,
+                revealedOwner: collection.revealedOwner,
+                revealPending: collection.revealPending,
+                allowlistEnabled: collection.allowlistEnabled,
+                paused: collection.paused
             });
     }
 
-    /// @notice Return all collections created so far.
-    function getAllCollections() external view returns (CollectionView[] memory) {
-        uint256 count = _collectionCount;
-        CollectionView[] memory allCollections = new CollectionView[](count);
-        for (uint256 i = 0; i < count; i++) {
-            allCollections[i] = getCollection(i + 1);
+    /// @notice Return a page of collections in creation order.
+    /// @param offset Number of collections to skip.
+    /// @param limit Maximum number of collections to return.
+    function getCollections(uint256 offset, uint256 limit) external view returns (CollectionView[] memory page) {
+        uint256 size = _pageSize(_collectionCount, offset, limit);
+        page = new CollectionView[](size);
+        for (uint256 i = 0; i < size; i++) {
+            page[i] = getCollection(offset + i + 1);
+        }
+    }
+
+    /// @notice Return a page of the collections currently held by a creator.
+    /// @param creator Creator address to filter by.
+    /// @param offset Number of collections to skip.
+    /// @param limit Maximum number of collections to return.
+    function getCollectionsByCreator(
+        address creator,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (CollectionView[] memory page) {
+        uint256[] storage collectionIds = _creatorCollections[creator];
+        uint256 size = _pageSize(collectionIds.length, offset, limit);
+        page = new CollectionView[](size);
+        for (uint256 i = 0; i < size; i++) {
+            page[i] = getCollection(collectionIds[offset + i]);
         }
-        return allCollections;
+    }
+
+    /// @notice Number of collections currently held by a creator.
+    function totalCollectionsByCreator(address creator) external view returns (uint256) {
+        return _creatorCollections[creator].length;
     }
 
     /// @notice Encrypted owner handle for a collection.
     function hiddenOwner(uint256 collectionId) external view returns (eaddress) {
-        if (!_collections[collectionId].exists) {
-            revert InvalidCollection();
+        return _existingCollection(collectionId).hiddenOwner;
+    }
+
+    /// @notice Return a page of the hidden owners a collection has had, oldest first, with the time each was set.
+    /// @dev Only creations and rotations are recorded, not the re-encryptions done for ACL changes. Every recorded
+    /// handle stays decryptable by whoever was creator or viewer when it was set, and by later creators once they
+    /// call `grantHiddenOwnerHistory`.
+    /// @param collectionId Collection id to inspect.
+    /// @param offset Number of records to skip.
+    /// @param limit Maximum number of records to return.
+    function getHiddenOwnerHistory(
+        uint256 collectionId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (HiddenOwnerRecord[] memory page) {
+        HiddenOwnerRecord[] storage history = _hiddenOwnerHistory[collectionId];
+        uint256 size = _pageSize(history.length, offset, limit);
+        page = new HiddenOwnerRecord[](size);
+        for (uint256 i = 0; i < size; i++) {
+            page[i] = history[offset + i];
         }
-        return _collections[collectionId].hiddenOwner;
+    }
+
+    /// @notice Number of hidden owners recorded for a collection, including the current one.
+    function totalHiddenOwnerHistory(uint256 collectionId) external view returns (uint256) {
+        return _hiddenOwnerHistory[collectionId].length;
     }
 
     /// @notice Count of created collections.
@@ -197,10 +928,59 @@ contract NovaMint is ZamaEthereumConfig {
 
     /// @notice Return minted count for a collection.
     function mintedCount(uint256 collectionId) external view returns (uint256) {
-        if (!_collections[collectionId].exists) {
-            revert InvalidCollection();
+        return _existingCollection(collectionId).minted;
+    }
+
+    /// @notice Number of tokens a wallet has minted from a collection.
+    function mintedBy(uint256 collectionId, address wallet) external view returns (uint256) {
+        _existingCollection(collectionId);
+        return _mintedPerWallet[collectionId][wallet];
+    }
+
+    /// @notice Encrypted remaining allowlist allowance of an address.
+    function allowlistAllowance(uint256 collectionId, address account) external view returns (euint32) {
+        _existingCollection(collectionId);
+        return _allowances[collectionId][account];
+    }
+
+    /// @notice Addresses allowed to decrypt the hidden owner besides the creator.
+    function viewers(uint256 collectionId) external view returns (address[] memory) {
+        _existingCollection(collectionId);
+        return _viewers[collectionId];
+    }
+
+    /// @notice Whether an address may decrypt the hidden owner of a collection.
+    function isViewer(uint256 collectionId, address account) external view returns (bool) {
+        return _isViewer[collectionId][account];
+    }
+
+    /// @notice Hidden-owner action details.
+    function ownerAction(uint256 actionId) external view returns (OwnerAction memory) {
+        if (actionId == 0 || actionId > _ownerActionCount) {
+            revert InvalidRequest();
+        }
+        return _ownerActions[actionId];
+    }
+
+    /// @notice Withdrawal request details.
+    function withdrawalRequest(uint256 requestId) external view returns (WithdrawalRequest memory) {
+        if (requestId == 0 || requestId > _withdrawalRequestCount) {
+            revert InvalidRequest();
         }
-        return _collections[collectionId].minted;
+        return _withdrawalRequests[requestId];
+    }
+
+    /// @notice Refunded allowlist payments an account can withdraw.
+    function refundOf(address account) external view returns (uint256) {
+        return _refunds[account];
+    }
+
+    /// @notice Allowlist mint request details.
+    function allowlistRequest(uint256 requestId) external view returns (AllowlistMintRequest memory) {
+        if (requestId == 0 || requestId > _allowlistRequestCount) {
+            revert InvalidRequest();
+        }
+        return _allowlistRequests[requestId];
     }
 
     /// @notice Token owner.
@@ -220,6 +1000,30 @@ contract NovaMint is ZamaEthereumConfig {
         return _balances[owner];
     }
 
+    /// @notice Token at a position of an owner's token list (ERC721Enumerable style).
+    /// @dev The order changes when the owner transfers a token away.
+    /// @param owner Token owner.
+    /// @param index Position in the list, below `balanceOf(owner)`.
+    function tokenOfOwnerByIndex(address owner, uint256 index) external view returns (uint256) {
+        if (index >= _ownedTokens[owner].length) {
+            revert OwnerIndexOutOfBounds();
+        }
+        return _ownedTokens[owner][index];
+    }
+
+    /// @notice Return a page of the token ids owned by an address.
+    /// @param owner Token owner.
+    /// @param offset Number of tokens to skip.
+    /// @param limit Maximum number of token ids to return.
+    function tokensOfOwner(address owner, uint256 offset, uint256 limit) external view returns (uint256[] memory page) {
+        uint256[] storage tokenIds = _ownedTokens[owner];
+        uint256 size = _pageSize(tokenIds.length, offset, limit);
+        page = new uint256[](size);
+        for (uint256 i = 0; i < size; i++) {
+            page[i] = tokenIds[offset + i];
+        }
+    }
+
     /// @notice Collection id for a token.
     function tokenCollection(uint256 tokenId) external view returns (uint256) {
         uint256 collectionId = _tokenToCollection[tokenId];
@@ -229,8 +1033,414 @@ contract NovaMint is ZamaEthereumConfig {
         return collectionId;
     }
 
+    /// @notice Metadata URI for a token: the collection base URI followed by the token id.
+    /// @dev Returns an empty string when the collection has no base URI.
+    /// @param tokenId Token id to resolve.
+    function tokenURI(uint256 tokenId) external view returns (string memory) {
+        ownerOf(tokenId);
+        return TokenUtils.tokenURI(_collections[_tokenToCollection[tokenId]].baseURI, tokenId);
+    }
+
+    /// @notice EIP-2981 royalty for a token, paid to its collection's `RoyaltyReceiver`.
+    /// @param tokenId Token being sold.
+    /// @param salePrice Sale price in any unit; the royalty is returned in the same unit.
+    function royaltyInfo(uint256 tokenId, uint256 salePrice) external view returns (address, uint256) {
+        ownerOf(tokenId);
+        Collection storage collection = _collections[_tokenToCollection[tokenId]];
+        return (collection.royaltyReceiver, (salePrice * collection.royaltyBps) / _MAX_ROYALTY_BPS);
+    }
+
     /// @notice Whether a token has been minted.
     function tokenExists(uint256 tokenId) external view returns (bool) {
         return _owners[tokenId] != address(0);
     }
+
+    /// @notice Whether the contract implements an interface (ERC165).
+    /// @param interfaceId Interface identifier.
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        return
+            interfaceId == 0x01ffc9a7 || // ERC165
+            interfaceId == 0x80ac58cd || // ERC721
+            interfaceId == 0x5b5e139f || // ERC721Metadata
+            interfaceId == 0x2a55205a; // ERC2981
+    }
+
+    /// @notice Approve an address to transfer a single token.
+    /// @param to Address to approve, or zero to clear the approval.
+    /// @param tokenId Token id to approve.
+    function approve(address to, uint256 tokenId) external {
+        address owner = ownerOf(tokenId);
+        if (msg.sender != owner && !_operatorApprovals[owner][msg.sender]) {
+            revert NotTokenOwnerOrApproved();
+        }
+
+        _tokenApprovals[tokenId] = to;
+        emit Approval(owner, to, tokenId);
+    }
+
+    /// @notice Approve or revoke an operator for all tokens of the caller.
+    /// @param operator Operator address.
+    /// @param approved Whether the operator is approved.
+    function setApprovalForAll(address operator, bool approved) external {
+        if (operator == address(0) || operator == msg.sender) {
+            revert InvalidOperator();
+        }
+
+        _operatorApprovals[msg.sender][operator] = approved;
+        emit ApprovalForAll(msg.sender, operator, approved);
+    }
+
+    /// @notice Approved address for a token.
+    function getApproved(uint256 tokenId) public view returns (address) {
+        ownerOf(tokenId);
+        return _tokenApprovals[tokenId];
+    }
+
+    /// @notice Whether an operator is approved for all tokens of an owner.
+    function isApprovedForAll(address owner, address operator) public view returns (bool) {
+        return _operatorApprovals[owner][operator];
+    }
+
+    /// @notice Transfer a token without receiver checks.
+    /// @param from Current token owner.
+    /// @param to Recipient address.
+    /// @param tokenId Token id to transfer.
+    function transferFrom(address from, address to, uint256 tokenId) public {
+        _transfer(from, to, tokenId);
+    }
+
+    /// @notice Transfer a token, checking that contract recipients accept ERC721 tokens.
+    /// @param from Current token owner.
+    /// @param to Recipient address.
+    /// @param tokenId Token id to transfer.
+    function safeTransferFrom(address from, address to, uint256 tokenId) external {
+        safeTransferFrom(from, to, tokenId, "");
+    }
+
+    /// @notice Transfer a token with data, checking that contract recipients accept ERC721 tokens.
+    /// @param from Current token owner.
+    /// @param to Recipient address.
+    /// @param tokenId Token id to transfer.
+    /// @param data Extra data forwarded to the recipient.
+    function safeTransferFrom(address from, address to, uint256 tokenId, bytes memory data) public {
+        _transfer(from, to, tokenId);
+        if (to.code.length != 0) {
+            TokenUtils.checkOnERC721Received(msg.sender, from, to, tokenId, data);
+        }
+    }
+
+    function _existingCollection(uint256 id) private view returns (Collection storage collection) {
+        collection = _collections[id];
+        if (!collection.exists) {
+            revert InvalidCollection();
+        }
+    }
+
+    function _checkCollectionOwner(uint256 id) private view {
+        if (_existingCollection(id).creator != msg.sender) {
+            revert NotCollectionOwner();
+        }
+    }
+
+    function _mintBatch(uint256 collectionId, uint256 quantity) private returns (uint256 firstTokenId) {
+        Collection storage collection = _existingCollection(collectionId);
+        if (collection.allowlistEnabled) {
+            revert AllowlistRequired();
+        }
+
+        _reserveMint(collection, collectionId, msg.sender, quantity);
+        collection.balance += msg.value;
+        firstTokenId = _mintTokens(collection, collectionId, msg.sender, quantity);
+    }
+
+    function _reserveMint(
+        Collection storage collection,
+        uint256 collectionId,
+        address minter,
+        uint256 quantity
+    ) private {
+        if (quantity == 0) {
+            revert InvalidQuantity();
+        }
+        _checkMintOpen(collection);
+        if (msg.value != collection.mintPrice * quantity) {
+            revert IncorrectPayment();
+        }
+        if (collection.minted + collection.reserved + quantity > collection.maxSupply) {
+            revert SupplyExhausted();
+        }
+        uint256 walletMinted = _mintedPerWallet[collectionId][minter] + quantity;
+        if (collection.maxPerWallet != 0 && walletMinted > collection.maxPerWallet) {
+            revert WalletLimitExceeded();
+        }
+
+        _mintedPerWallet[collectionId][minter] = walletMinted;
+    }
+
+    function _checkMintOpen(Collection storage collection) private view {
+        if (collection.paused) {
+            revert MintPaused();
+        }
+        if (block.timestamp < collection.mintStart) {
+            revert MintNotStarted();
+        }
+        if (collection.mintEnd != 0 && block.timestamp >= collection.mintEnd) {
+            revert MintEnded();
+        }
+    }
+
+    function _checkMintWindow(MintWindow calldata mintWindow) private pure {
+        if (mintWindow.end != 0 && mintWindow.end <= mintWindow.start) {
+            revert InvalidMintWindow();
+        }
+    }
+
+    function _mintTokens(
+        Collection storage collection,
+        uint256 collectionId,
+        address to,
+        uint256 quantity
+    ) private returns (uint256 firstTokenId) {
+        firstTokenId = collection.baseTokenId + collection.minted;
+        collection.minted += quantity;
+        _balances[to] += quantity;
+
+        for (uint256 tokenId = firstTokenId; tokenId < firstTokenId + quantity; tokenId++) {
+            _owners[tokenId] = to;
+            _tokenToCollection[tokenId] = collectionId;
+            _addOwnedToken(to, tokenId);
+
+            emit Minted(collectionId, tokenId, to);
+            emit Transfer(address(0), to, tokenId);
+        }
+    }
+
+    function _verifyDecryptedBool(
+        ebool handle,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) private returns (bool) {
+        _checkDecryption(FHE.toBytes32(handle), abiEncodedCleartexts, decryptionProof);
+        return abi.decode(abiEncodedCleartexts, (bool));
+    }
+
+    function _checkDecryption(
+        bytes32 handle,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) private {
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = handle;
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+    }
+
+    function _sendValue(address to, uint256 amount) private {
+        if (amount == 0) {
+            return;
+        }
+        (bool success, ) = to.call{value: amount}("");
+        if (!success) {
+            revert PaymentFailed();
+        }
+    }
+
+    function _requestOwnerAction(
+        uint256 collectionId,
+        OwnerActionKind kind,
+        uint256 value,
+        eaddress newHiddenOwner
+    ) private returns (uint256 actionId) {
+        Collection storage collection = _existingCollection(collectionId);
+
+        ebool authorized = FHE.eq(collection.hiddenOwner, msg.sender);
+        FHE.allowThis(authorized);
+        FHE.makePubliclyDecryptable(authorized);
+
+        actionId = ++_ownerActionCount;
+        _ownerActions[actionId] = OwnerAction({
+            collectionId: collectionId,
+            caller: msg.sender,
+            kind: kind,
+            status: OwnerActionStatus.Pending,
+            value: value,
+            newHiddenOwner: newHiddenOwner,
+            ownerHandle: collection.hiddenOwner,
+            authorized: authorized,
+            ownerEpoch: _hiddenOwnerHistory[collectionId].length
+        });
+
+        emit OwnerActionRequested(actionId, collectionId, msg.sender, kind, authorized);
+    }
+
+    function _executeOwnerAction(OwnerAction storage action) private {
+        uint256 collectionId = action.collectionId;
+        if (action.kind == OwnerActionKind.RotateHiddenOwner) {
+            _setHiddenOwner(collectionId, action.newHiddenOwner);
+        } else if (action.kind == OwnerActionKind.Withdraw) {
+            Collection storage collection = _collections[collectionId];
+            uint256 amount = collection.balance;
+            collection.balance = 0;
+            _sendValue(action.caller, amount);
+        } else if (action.kind == OwnerActionKind.SetMintPrice) {
+            _setMintPrice(collectionId, action.value);
+        } else {
+            _setAllowlistEnabled(collectionId, action.value != 0);
+        }
+    }
+
+    function _setHiddenOwner(uint256 collectionId, eaddress encryptedOwner) private {
+        Collection storage collection = _collections[collectionId];
+        collection.hiddenOwner = encryptedOwner;
+        collection.revealedOwner = address(0);
+        collection.revealPending = false;
+        _recordHiddenOwner(collectionId, encryptedOwner);
+
+        _allowHiddenOwner(collectionId, encryptedOwner);
+
+        emit HiddenOwnerUpdated(collectionId, encryptedOwner);
+    }
+
+    function _setMintPrice(uint256 collectionId, uint256 mintPrice) private {
+        _collections[collectionId].mintPrice = mintPrice;
+
+        emit MintPriceUpdated(collectionId, mintPrice);
+    }
+
+    function _setRoyalty(uint256 collectionId, uint256 royaltyBps) private {
+        if (royaltyBps > _MAX_ROYALTY_BPS) {
+            revert InvalidRoyalty();
+        }
+        Collection storage collection = _collections[collectionId];
+        collection.royaltyBps = royaltyBps;
+        // Each collection gets its own receiver so untagged marketplace payments can be attributed to it.
+        if (royaltyBps != 0 && collection.royaltyReceiver == address(0)) {
+            collection.royaltyReceiver = RoyaltyReceiverDeployer.deploy(collectionId);
+        }
+
+        emit RoyaltyUpdated(collectionId, royaltyBps, collection.royaltyReceiver);
+    }
+
+    function _setPaused(uint256 collectionId, bool paused) private {
+        _collections[collectionId].paused = paused;
+
+        emit PauseStatusChanged(collectionId, paused);
+    }
+
+    function _setAllowlistEnabled(uint256 collectionId, bool enabled) private {
+        _collections[collectionId].allowlistEnabled = enabled;
+
+        emit AllowlistStatusChanged(collectionId, enabled);
+    }
+
+    function _removeCreatorCollection(address creator, uint256 collectionId) private {
+        uint256[] storage collectionIds = _creatorCollections[creator];
+        for (uint256 i = 0; i < collectionIds.length; i++) {
+            if (collectionIds[i] == collectionId) {
+                collectionIds[i] = collectionIds[collectionIds.length - 1];
+                collectionIds.pop();
+                return;
+            }
+        }
+    }
+
+    function _addOwnedToken(address owner, uint256 tokenId) private {
+        _ownedTokenIndex[tokenId] = _ownedTokens[owner].length;
+        _ownedTokens[owner].push(tokenId);
+    }
+
+    function _removeOwnedToken(address owner, uint256 tokenId) private {
+        uint256[] storage tokenIds = _ownedTokens[owner];
+        uint256 index = _ownedTokenIndex[tokenId];
+        uint256 lastTokenId = tokenIds[tokenIds.length - 1];
+        tokenIds[index] = lastTokenId;
+        _ownedTokenIndex[lastTokenId] = index;
+        tokenIds.pop();
+        delete _ownedTokenIndex[tokenId];
+    }
+
+    function _closeWithdrawal(uint256 requestId) private returns (WithdrawalRequest storage request) {
+        request = _withdrawalRequests[requestId];
+        if (!request.pending) {
+            revert InvalidRequest();
+        }
+        request.pending = false;
+    }
+
+    function _returnWithdrawal(WithdrawalRequest storage request) private {
+        _collections[request.collectionId].balance += request.amount;
+    }
+
+    function _pageSize(uint256 total, uint256 offset, uint256 limit) private pure returns (uint256) {
+        if (offset >= total) {
+            return 0;
+        }
+        uint256 remaining = total - offset;
+        return remaining < limit ? remaining : limit;
+    }
+
+    function _refreshHiddenOwner(uint256 collectionId) private {
+        Collection storage collection = _collections[collectionId];
+        eaddress refreshedOwner = FHE.select(FHE.randEbool(), collection.hiddenOwner, collection.hiddenOwner);
+        collection.hiddenOwner = refreshedOwner;
+        _allowHiddenOwner(collectionId, refreshedOwner);
+        if (collection.revealPending) {
+            FHE.makePubliclyDecryptable(refreshedOwner);
+        }
+
+        emit HiddenOwnerUpdated(collectionId, refreshedOwner);
+    }
+
+    function _recordHiddenOwner(uint256 collectionId, eaddress encryptedOwner) private {
+        _hiddenOwnerHistory[collectionId].push(HiddenOwnerRecord(encryptedOwner, block.timestamp));
+    }
+
+    function _allowHiddenOwner(uint256 collectionId, eaddress encryptedOwner) private {
+        FHE.allowThis(encryptedOwner);
+        address creator = _collections[collectionId].creator;
+        if (creator != address(0)) {
+            FHE.allow(encryptedOwner, creator);
+        }
+
+        address[] storage collectionViewers = _viewers[collectionId];
+        for (uint256 i = 0; i < collectionViewers.length; i++) {
+            FHE.allow(encryptedOwner, collectionViewers[i]);
+        }
+    }
+
+    function _refundAllowlistMint(AllowlistMintRequest storage request) private {
+        _mintedPerWallet[request.collectionId][request.minter] -= request.quantity;
+        _refunds[request.minter] += request.payment;
+    }
+
+    function _storeAllowance(uint256 collectionId, address account, euint32 allowance) private {
+        FHE.allowThis(allowance);
+        address creator = _collections[collectionId].creator;
+        if (creator != address(0)) {
+            FHE.allow(allowance, creator);
+        }
+        FHE.allow(allowance, account);
+        _allowances[collectionId][account] = allowance;
+    }
+
+    function _transfer(address from, address to, uint256 tokenId) private {
+        address owner = ownerOf(tokenId);
+        if (owner != from) {
+            revert IncorrectOwner();
+        }
+        if (to == address(0)) {
+            revert ZeroAddress();
+        }
+        if (msg.sender != owner && _tokenApprovals[tokenId] != msg.sender && !_operatorApprovals[owner][msg.sender]) {
+            revert NotTokenOwnerOrApproved();
+        }
+
+        delete _tokenApprovals[tokenId];
+        _balances[from] -= 1;
+        _balances[to] += 1;
+        _owners[tokenId] = to;
+        _removeOwnedToken(from, tokenId);
+        _addOwnedToken(to, tokenId);
+
+        emit Transfer(from, to, tokenId);
+    }
 }
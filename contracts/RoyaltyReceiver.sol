@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+/// @notice Royalty deposit entry point of NovaMint.
+interface INovaMintRoyalties {
+    function depositRoyalty(uint256 collectionId) external payable;
+}
+
+/// @title RoyaltyReceiver - EIP-2981 royalty receiver for one NovaMint collection
+/// @notice Marketplaces pay royalties to this address and `sweep` moves them into the collection's balance, which
+/// NovaMint only pays out to the encrypted hidden owner.
+contract RoyaltyReceiver {
+    INovaMintRoyalties public immutable novaMint;
+    uint256 public immutable collectionId;
+
+    constructor(uint256 collectionId_) {
+        novaMint = INovaMintRoyalties(msg.sender);
+        collectionId = collectionId_;
+    }
+
+    /// @notice Accept a royalty payment. Nothing else runs, so payments sent with the 2300 gas stipend succeed.
+    receive() external payable {}
+
+    /// @notice Forward every royalty received so far to the collection balance. Callable by anyone.
+    function sweep() external {
+        novaMint.depositRoyalty{value: address(this).balance}(collectionId);
+    }
+}
+
+/// @title RoyaltyReceiverDeployer - creates royalty receivers for NovaMint
+/// @notice Linked into NovaMint as an external library so the receiver's creation code is not part of NovaMint's
+/// bytecode. The call is a delegatecall, so NovaMint stays the deployer the receiver forwards to.
+library RoyaltyReceiverDeployer {
+    function deploy(uint256 collectionId) external returns (address) {
+        return address(new RoyaltyReceiver(collectionId));
+    }
+}
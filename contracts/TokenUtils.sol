@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+/// @notice Receiver hook for ERC721 safe transfers.
+interface IERC721Receiver {
+    function onERC721Received(
+        address operator,
+        address from,
+        uint256 tokenId,
+        bytes calldata data
+    ) external returns (bytes4);
+}
+
+/// @title TokenUtils - ERC721 helpers for NovaMint
+/// @notice Linked into NovaMint as an external library to keep it under the contract size limit. Calls are
+/// delegatecalls, so receivers still see NovaMint as the token contract.
+library TokenUtils {
+    error InvalidReceiver();
+
+    /// @notice The collection's base URI followed by the decimal token id, or empty without a base URI.
+    /// @param baseURI Base URI of the token's collection.
+    /// @param tokenId Token id to append.
+    function tokenURI(string storage baseURI, uint256 tokenId) external view returns (string memory) {
+        if (bytes(baseURI).length == 0) {
+            return "";
+        }
+        return string.concat(baseURI, _toString(tokenId));
+    }
+
+    /// @notice Revert unless the receiving contract accepts the token, bubbling up its own revert reason.
+    /// @param operator Address that initiated the transfer.
+    /// @param from Previous owner.
+    /// @param to Receiving contract.
+    /// @param tokenId Token being transferred.
+    /// @param data Data forwarded to the receiver.
+    function checkOnERC721Received(
+        address operator,
+        address from,
+        address to,
+        uint256 tokenId,
+        bytes memory data
+    ) external {
+        try IERC721Receiver(to).onERC721Received(operator, from, tokenId, data) returns (bytes4 retval) {
+            if (retval != IERC721Receiver.onERC721Received.selector) {
+                revert InvalidReceiver();
+            }
+        } catch (bytes memory reason) {
+            if (reason.length == 0) {
+                revert InvalidReceiver();
+            }
+            assembly {
+                revert(add(32, reason), mload(reason))
+            }
+        }
+    }
+
+    function _toString(uint256 value) private pure returns (string memory) {
+        if (value == 0) {
+            return "0";
+        }
+
+        uint256 digits;
+        for (uint256 temp = value; temp != 0; temp /= 10) {
+            digits++;
+        }
+
+        bytes memory buffer = new bytes(digits);
+        while (value != 0) {
+            digits -= 1;
+            buffer[digits] = bytes1(uint8(48 + (value % 10)));
+            value /= 10;
+        }
+        return string(buffer);
+    }
+}
@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+/// @title ERC721ReceiverMock - Test helper for safe transfers
+/// @notice Accepts, rejects or reverts on incoming ERC721 tokens depending on its configured behaviour.
+contract ERC721ReceiverMock {
+    enum Behaviour {
+        Accept,
+        WrongSelector,
+        RevertWithMessage,
+        RevertEmpty
+    }
+
+    Behaviour private immutable _behaviour;
+
+    event Received(address operator, address from, uint256 tokenId, bytes data);
+
+    error ReceiverRejected();
+
+    constructor(Behaviour behaviour) {
+        _behaviour = behaviour;
+    }
+
+    /// @notice ERC721 receiver hook.
+    function onERC721Received(
+        address operator,
+        address from,
+        uint256 tokenId,
+        bytes calldata data
+    ) external returns (bytes4) {
+        if (_behaviour == Behaviour.RevertWithMessage) {
+            revert ReceiverRejected();
+        }
+        if (_behaviour == Behaviour.RevertEmpty) {
+            // solhint-disable-next-line reason-string, gas-custom-errors
+            revert();
+        }
+        if (_behaviour == Behaviour.WrongSelector) {
+            return 0xdeadbeef;
+        }
+
+        emit Received(operator, from, tokenId, data);
+        return this.onERC721Received.selector;
+    }
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {NovaMint} from "../NovaMint.sol";
+
+/// @title NovaMintV2Mock - Upgrade target for proxy tests
+/// @notice Appends a state variable after the NovaMint layout, as a real upgrade would.
+contract NovaMintV2Mock is NovaMint {
+    uint256 public upgradeMarker;
+
+    /// @notice Write to the appended storage variable.
+    /// @param marker Value to store.
+    function setUpgradeMarker(uint256 marker) external {
+        upgradeMarker = marker;
+    }
+}
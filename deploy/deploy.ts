@@ -1,16 +1,27 @@
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
+import { deployNovaMintLibraries, NOVAMINT_PROXY } from "../tasks/upgrades";
+
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
+  const { deploy, log } = hre.deployments;
 
+  // Transparent proxy owned by hardhat-deploy's DefaultProxyAdmin. Re-running this script with a changed
+  // implementation upgrades the proxy in place (see `task:upgrade`); `initialize` only runs on the first deploy.
   const deployedNovaMint = await deploy("NovaMint", {
     from: deployer,
     log: true,
+    libraries: await deployNovaMintLibraries(hre.deployments, deployer),
+    proxy: NOVAMINT_PROXY,
   });
 
-  console.log(`NovaMint contract: `, deployedNovaMint.address);
+  log(`NovaMint contract: `, deployedNovaMint.address);
+
+  // The in-memory hardhat network leaves nothing on disk for the frontend to point at.
+  if (hre.network.name !== "hardhat") {
+    await hre.run("task:app-config");
+  }
 };
 export default func;
 func.id = "deploy_novamint"; // id required to prevent reexecution
@@ -10,7 +10,11 @@ import "solidity-coverage";
 import * as dotenv from "dotenv";
 
 import "./tasks/accounts";
+import "./tasks/appConfig";
+import "./tasks/inspect";
+import "./tasks/manifest";
 import "./tasks/NovaMint";
+import "./tasks/upgrades";
 
 dotenv.config();
 
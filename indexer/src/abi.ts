@@ -0,0 +1,20 @@
+import { Interface } from "ethers";
+
+// Encrypted handles (eaddress) are ABI-encoded as bytes32.
+export const NOVAMINT_EVENTS = [
+  "event CollectionCreated(uint256 indexed id, address indexed creator, string name, uint256 maxSupply, bytes32 hiddenOwner)",
+  "event HiddenOwnerUpdated(uint256 indexed id, bytes32 hiddenOwner)",
+  "event CreatorTransferred(uint256 indexed id, address indexed previousCreator, address indexed newCreator)",
+  "event Minted(uint256 indexed collectionId, uint256 indexed tokenId, address indexed to)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+] as const;
+
+export const novaMintInterface = new Interface(NOVAMINT_EVENTS);
+
+export const INDEXED_TOPICS = [
+  "CollectionCreated",
+  "HiddenOwnerUpdated",
+  "CreatorTransferred",
+  "Minted",
+  "Transfer",
+].map((name) => novaMintInterface.getEvent(name)!.topicHash);
@@ -0,0 +1,120 @@
+import type Database from "better-sqlite3";
+
+import { CURRENT_CREATOR, TOKEN_OWNERS, ZERO_ADDRESS } from "./db";
+
+export const BUCKETS = { hour: 3600, day: 86400 } as const;
+
+export type Bucket = keyof typeof BUCKETS;
+
+export type AnalyticsFilter = {
+  creator?: string;
+};
+
+// Collections in scope for a query: every collection, or only those currently held by @creator.
+const SCOPED = `scoped AS (
+  SELECT c.id AS id FROM collections c WHERE @creator IS NULL OR ${CURRENT_CREATOR} = @creator
+)`;
+
+/**
+ * Aggregates over the indexed `Minted` and `Transfer` history. Every query accepts an optional creator filter so a
+ * creator can look at their own drops only.
+ */
+export class IndexerAnalytics {
+  constructor(private readonly db: Database.Database) {}
+
+  overview(filter: AnalyticsFilter = {}) {
+    return this.db
+      .prepare(
+        `${TOKEN_OWNERS}, ${SCOPED}
+         SELECT
+           (SELECT COUNT(*) FROM scoped) AS collections,
+           (SELECT COALESCE(SUM(c.max_supply), 0) FROM collections c JOIN scoped ON scoped.id = c.id) AS supply,
+           (SELECT COUNT(*) FROM mints m JOIN scoped ON scoped.id = m.collection_id) AS mints,
+           (SELECT COUNT(DISTINCT m.minter) FROM mints m JOIN scoped ON scoped.id = m.collection_id) AS uniqueMinters,
+           (SELECT COUNT(DISTINCT o.owner) FROM owners o JOIN scoped ON scoped.id = o.collection_id) AS uniqueHolders,
+           (SELECT COUNT(*) FROM transfers t JOIN mints m ON m.token_id = t.token_id
+             JOIN scoped ON scoped.id = m.collection_id WHERE t.from_address != '${ZERO_ADDRESS}') AS secondaryTransfers`,
+      )
+      .get(this.params(filter));
+  }
+
+  /**
+   * @returns mint counts per collection and time bucket, oldest bucket first
+   */
+  mintsOverTime(filter: AnalyticsFilter = {}, bucket: Bucket = "day") {
+    return this.db
+      .prepare(
+        `WITH ${SCOPED}
+         SELECT m.collection_id AS collectionId, c.name AS name, (m.timestamp / @size) * @size AS bucket,
+           COUNT(*) AS mints
+         FROM mints m JOIN scoped ON scoped.id = m.collection_id JOIN collections c ON c.id = m.collection_id
+         GROUP BY m.collection_id, bucket ORDER BY bucket, m.collection_id`,
+      )
+      .all({ ...this.params(filter), size: BUCKETS[bucket] });
+  }
+
+  holders(filter: AnalyticsFilter = {}) {
+    return this.db
+      .prepare(
+        `${TOKEN_OWNERS}, ${SCOPED}
+         SELECT c.id AS collectionId, c.name AS name, COUNT(DISTINCT o.owner) AS holders, COUNT(o.token_id) AS tokens
+         FROM collections c JOIN scoped ON scoped.id = c.id LEFT JOIN owners o ON o.collection_id = c.id
+         GROUP BY c.id ORDER BY holders DESC, c.id`,
+      )
+      .all(this.params(filter));
+  }
+
+  topMinters(filter: AnalyticsFilter = {}, limit = 10) {
+    return this.db
+      .prepare(
+        `WITH ${SCOPED}
+         SELECT m.minter AS minter, COUNT(*) AS mints, COUNT(DISTINCT m.collection_id) AS collections
+         FROM mints m JOIN scoped ON scoped.id = m.collection_id
+         GROUP BY m.minter ORDER BY mints DESC, m.minter LIMIT @limit`,
+      )
+      .all({ ...this.params(filter), limit });
+  }
+
+  /**
+   * @returns per collection: when minting started, the latest mint and, once sold out, how long that took
+   */
+  sellThrough(filter: AnalyticsFilter = {}) {
+    return this.db
+      .prepare(
+        `WITH ${SCOPED},
+         ranked AS (
+           SELECT collection_id, timestamp,
+             ROW_NUMBER() OVER (PARTITION BY collection_id ORDER BY block_number, log_index) AS position
+           FROM mints
+         )
+         SELECT c.id AS collectionId, c.name AS name, c.max_supply AS maxSupply, c.timestamp AS createdAt,
+           COUNT(r.position) AS minted, MIN(r.timestamp) AS firstMintAt, MAX(r.timestamp) AS lastMintAt,
+           MAX(CASE WHEN r.position = c.max_supply THEN r.timestamp END) AS soldOutAt,
+           MAX(CASE WHEN r.position = c.max_supply THEN r.timestamp END) - c.timestamp AS sellThroughSeconds
+         FROM collections c JOIN scoped ON scoped.id = c.id LEFT JOIN ranked r ON r.collection_id = c.id
+         GROUP BY c.id ORDER BY c.id`,
+      )
+      .all(this.params(filter));
+  }
+
+  creators(filter: AnalyticsFilter = {}) {
+    return this.db
+      .prepare(
+        `${TOKEN_OWNERS}, ${SCOPED},
+         owned AS (
+           SELECT c.id AS id, ${CURRENT_CREATOR} AS creator, c.max_supply AS max_supply
+           FROM collections c JOIN scoped ON scoped.id = c.id
+         )
+         SELECT owned.creator AS creator, COUNT(*) AS collections, SUM(owned.max_supply) AS supply,
+           SUM((SELECT COUNT(*) FROM mints m WHERE m.collection_id = owned.id)) AS minted,
+           (SELECT COUNT(DISTINCT o.owner) FROM owners o JOIN owned inner_owned ON inner_owned.id = o.collection_id
+             WHERE inner_owned.creator = owned.creator) AS holders
+         FROM owned GROUP BY owned.creator ORDER BY minted DESC, owned.creator`,
+      )
+      .all(this.params(filter));
+  }
+
+  private params(filter: AnalyticsFilter) {
+    return { creator: filter.creator ?? null };
+  }
+}
@@ -0,0 +1,192 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import { getAddress, isAddress } from "ethers";
+
+import { BUCKETS, IndexerAnalytics, type AnalyticsFilter, type Bucket } from "./analytics";
+import type { IndexerStore, Page } from "./db";
+import type { NovaMintIndexer, SyncResult } from "./indexer";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+type Route = {
+  pattern: RegExp;
+  handler: (params: string[], query: URLSearchParams) => unknown;
+};
+
+function readId(value: string, label: string): number {
+  const id = Number(value);
+  if (!Number.isSafeInteger(id) || id < 0) {
+    throw new HttpError(400, `Invalid ${label}`);
+  }
+  return id;
+}
+
+function readAddress(value: string | null): string | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  if (!isAddress(value)) {
+    throw new HttpError(400, `Invalid address ${value}`);
+  }
+  return getAddress(value);
+}
+
+function readPage(query: URLSearchParams): Page {
+  const offset = Number(query.get("offset") ?? 0);
+  const limit = Number(query.get("limit") ?? DEFAULT_LIMIT);
+  if (!Number.isSafeInteger(offset) || offset < 0 || !Number.isSafeInteger(limit) || limit < 1) {
+    throw new HttpError(400, "offset and limit must be positive integers");
+  }
+  return { offset, limit: Math.min(limit, MAX_LIMIT) };
+}
+
+function readBucket(value: string | null): Bucket {
+  const bucket = value ?? "day";
+  if (!(bucket in BUCKETS)) {
+    throw new HttpError(400, `bucket must be one of ${Object.keys(BUCKETS).join(", ")}`);
+  }
+  return bucket as Bucket;
+}
+
+function readFilter(query: URLSearchParams): AnalyticsFilter {
+  return { creator: readAddress(query.get("creator")) };
+}
+
+function found<T>(value: T | undefined, message: string): T {
+  if (value === undefined) {
+    throw new HttpError(404, message);
+  }
+  return value;
+}
+
+function buildRoutes(store: IndexerStore): Route[] {
+  const analytics = new IndexerAnalytics(store.db);
+
+  return [
+    { pattern: /^\/status$/, handler: () => store.status() },
+    {
+      pattern: /^\/collections$/,
+      handler: (_params, query) => store.listCollections(readPage(query), readAddress(query.get("creator"))),
+    },
+    {
+      pattern: /^\/collections\/([^/]+)$/,
+      handler: ([id]) => found(store.getCollection(readId(id, "collection id")), "Collection not found"),
+    },
+    {
+      pattern: /^\/collections\/([^/]+)\/hidden-owners$/,
+      handler: ([id]) => store.listHiddenOwnerUpdates(readId(id, "collection id")),
+    },
+    {
+      pattern: /^\/collections\/([^/]+)\/mints$/,
+      handler: ([id], query) => store.listMints(readPage(query), { collectionId: readId(id, "collection id") }),
+    },
+    {
+      pattern: /^\/collections\/([^/]+)\/holders$/,
+      handler: ([id]) => store.listHolders(readId(id, "collection id")),
+    },
+    {
+      pattern: /^\/tokens\/([^/]+)$/,
+      handler: ([id]) => found(store.getToken(readId(id, "token id")), "Token not found"),
+    },
+    {
+      pattern: /^\/tokens\/([^/]+)\/transfers$/,
+      handler: ([id], query) => store.listTransfers(readPage(query), { tokenId: readId(id, "token id") }),
+    },
+    {
+      pattern: /^\/accounts\/([^/]+)\/tokens$/,
+      handler: ([address]) => store.listTokensOf(readAddress(address)!),
+    },
+    {
+      pattern: /^\/accounts\/([^/]+)\/mints$/,
+      handler: ([address], query) => store.listMints(readPage(query), { minter: readAddress(address) }),
+    },
+    {
+      pattern: /^\/transfers$/,
+      handler: (_params, query) => store.listTransfers(readPage(query), { address: readAddress(query.get("address")) }),
+    },
+    { pattern: /^\/analytics\/overview$/, handler: (_params, query) => analytics.overview(readFilter(query)) },
+    {
+      pattern: /^\/analytics\/mints$/,
+      handler: (_params, query) => analytics.mintsOverTime(readFilter(query), readBucket(query.get("bucket"))),
+    },
+    { pattern: /^\/analytics\/holders$/, handler: (_params, query) => analytics.holders(readFilter(query)) },
+    {
+      pattern: /^\/analytics\/top-minters$/,
+      handler: (_params, query) => analytics.topMinters(readFilter(query), readPage(query).limit),
+    },
+    { pattern: /^\/analytics\/sell-through$/, handler: (_params, query) => analytics.sellThrough(readFilter(query)) },
+    { pattern: /^\/analytics\/creators$/, handler: (_params, query) => analytics.creators(readFilter(query)) },
+  ];
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Streams every {@link SyncResult} as a server-sent event so clients can refresh instead of polling.
+ */
+function openStream(request: IncomingMessage, response: ServerResponse, indexer: NovaMintIndexer) {
+  response.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "Access-Control-Allow-Origin": "*",
+  });
+  response.write(": connected\n\n");
+
+  const onIndexed = (result: SyncResult) => {
+    response.write(`event: indexed\ndata: ${JSON.stringify(result)}\n\n`);
+  };
+  indexer.on("indexed", onIndexed);
+  request.on("close", () => indexer.off("indexed", onIndexed));
+}
+
+/**
+ * Read-only HTTP/JSON API over the indexed events. `/stream` is only served when an indexer is attached.
+ */
+export function createApiServer(store: IndexerStore, indexer?: NovaMintIndexer): Server {
+  const routes = buildRoutes(store);
+
+  return createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (request.method !== "GET") {
+      sendJson(response, 405, { error: "Only GET is supported" });
+      return;
+    }
+    if (url.pathname === "/stream" && indexer) {
+      openStream(request, response, indexer);
+      return;
+    }
+
+    try {
+      for (const route of routes) {
+        const match = route.pattern.exec(url.pathname);
+        if (match) {
+          sendJson(response, 200, route.handler(match.slice(1).map(decodeURIComponent), url.searchParams));
+          return;
+        }
+      }
+      throw new HttpError(404, `No route for ${url.pathname}`);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(response, error.status, { error: error.message });
+      } else {
+        sendJson(response, 500, { error: error instanceof Error ? error.message : "Internal error" });
+      }
+    }
+  });
+}
@@ -0,0 +1,63 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+
+export type IndexerConfig = {
+  rpcUrl: string;
+  contractAddress: string;
+  startBlock: number;
+  databasePath: string;
+  port: number;
+  pollIntervalMs: number;
+  confirmations: number;
+  batchSize: number;
+  reorgDepth: number;
+};
+
+type Deployment = {
+  address: string;
+  receipt?: { blockNumber?: number };
+};
+
+function readNumber(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const raw = env[name];
+  if (raw === undefined || raw === "") {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Reads the hardhat-deploy artifact for `network` so a local node can be indexed without extra configuration.
+ */
+function readDeployment(network: string): Deployment | undefined {
+  const file = path.resolve(__dirname, "../../deployments", network, "NovaMint.json");
+  if (!existsSync(file)) {
+    return undefined;
+  }
+  return JSON.parse(readFileSync(file, "utf8")) as Deployment;
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): IndexerConfig {
+  const network = env.NOVAMINT_NETWORK ?? "localhost";
+  const deployment = env.NOVAMINT_ADDRESS ? undefined : readDeployment(network);
+  const contractAddress = env.NOVAMINT_ADDRESS ?? deployment?.address;
+  if (!contractAddress) {
+    throw new Error(`Set NOVAMINT_ADDRESS or deploy NovaMint to "${network}" first`);
+  }
+
+  return {
+    rpcUrl: env.NOVAMINT_RPC_URL ?? "http://127.0.0.1:8545",
+    contractAddress,
+    startBlock: readNumber(env, "NOVAMINT_START_BLOCK", deployment?.receipt?.blockNumber ?? 0),
+    databasePath: env.INDEXER_DB ?? path.resolve(process.cwd(), `novamint-${network}.db`),
+    port: readNumber(env, "INDEXER_PORT", 4000),
+    pollIntervalMs: readNumber(env, "INDEXER_POLL_MS", 2000),
+    confirmations: readNumber(env, "INDEXER_CONFIRMATIONS", 0),
+    batchSize: Math.max(1, readNumber(env, "INDEXER_BATCH_SIZE", 2000)),
+    reorgDepth: Math.max(1, readNumber(env, "INDEXER_REORG_DEPTH", 64)),
+  };
+}
@@ -0,0 +1,355 @@
+import Database from "better-sqlite3";
+
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export type EventPosition = {
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+};
+
+export type IndexedEvent = EventPosition &
+  (
+    | {
+        kind: "CollectionCreated";
+        collectionId: number;
+        creator: string;
+        name: string;
+        maxSupply: number;
+        hiddenOwner: string;
+      }
+    | { kind: "HiddenOwnerUpdated"; collectionId: number; hiddenOwner: string }
+    | { kind: "CreatorTransferred"; collectionId: number; previousCreator: string; newCreator: string }
+    | { kind: "Minted"; collectionId: number; tokenId: number; to: string }
+    | { kind: "Transfer"; tokenId: number; from: string; to: string }
+  );
+
+export type BlockRef = {
+  number: number;
+  hash: string;
+};
+
+export type IndexedBatch = {
+  toBlock: number;
+  blocks: BlockRef[];
+  events: IndexedEvent[];
+  pruneBelow: number;
+};
+
+export type Page = {
+  offset: number;
+  limit: number;
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS collections (
+    id INTEGER PRIMARY KEY,
+    creator TEXT NOT NULL,
+    name TEXT NOT NULL,
+    max_supply INTEGER NOT NULL,
+    hidden_owner TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS hidden_owner_updates (
+    collection_id INTEGER NOT NULL,
+    hidden_owner TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS creator_transfers (
+    collection_id INTEGER NOT NULL,
+    previous_creator TEXT NOT NULL,
+    new_creator TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS mints (
+    collection_id INTEGER NOT NULL,
+    token_id INTEGER NOT NULL,
+    minter TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS transfers (
+    token_id INTEGER NOT NULL,
+    from_address TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS hidden_owner_updates_collection ON hidden_owner_updates (collection_id);
+  CREATE INDEX IF NOT EXISTS creator_transfers_collection ON creator_transfers (collection_id);
+  CREATE INDEX IF NOT EXISTS mints_collection ON mints (collection_id);
+  CREATE UNIQUE INDEX IF NOT EXISTS mints_token ON mints (token_id);
+  CREATE INDEX IF NOT EXISTS transfers_token ON transfers (token_id);
+  CREATE INDEX IF NOT EXISTS transfers_from ON transfers (from_address);
+  CREATE INDEX IF NOT EXISTS transfers_to ON transfers (to_address);
+`;
+
+const EVENT_TABLES = ["collections", "hidden_owner_updates", "creator_transfers", "mints", "transfers"] as const;
+
+// The current creator is the last CreatorTransferred recipient, or the original creator when there is none.
+export const CURRENT_CREATOR = `COALESCE(
+  (SELECT t.new_creator FROM creator_transfers t WHERE t.collection_id = c.id
+    ORDER BY t.block_number DESC, t.log_index DESC LIMIT 1),
+  c.creator)`;
+
+const COLLECTION_COLUMNS = `
+  c.id AS id,
+  ${CURRENT_CREATOR} AS creator,
+  c.creator AS originalCreator,
+  c.name AS name,
+  c.max_supply AS maxSupply,
+  COALESCE(
+    (SELECT h.hidden_owner FROM hidden_owner_updates h WHERE h.collection_id = c.id
+      ORDER BY h.block_number DESC, h.log_index DESC LIMIT 1),
+    c.hidden_owner) AS hiddenOwner,
+  (SELECT COUNT(*) FROM mints m WHERE m.collection_id = c.id) AS minted,
+  c.block_number AS blockNumber,
+  c.tx_hash AS transactionHash,
+  c.timestamp AS timestamp`;
+
+// Latest owner of every token, derived from the transfer log so a rollback never leaves stale ownership behind.
+export const TOKEN_OWNERS = `
+  WITH ranked AS (
+    SELECT token_id, to_address,
+      ROW_NUMBER() OVER (PARTITION BY token_id ORDER BY block_number DESC, log_index DESC) AS position
+    FROM transfers
+  ),
+  owners AS (
+    SELECT ranked.token_id AS token_id, ranked.to_address AS owner, m.collection_id AS collection_id
+    FROM ranked JOIN mints m ON m.token_id = ranked.token_id
+    WHERE ranked.position = 1 AND ranked.to_address != '${ZERO_ADDRESS}'
+  )`;
+
+/**
+ * SQLite persistence for indexed NovaMint events. Every event row carries its block number so that a chain
+ * reorganisation can be undone by deleting everything above the common ancestor.
+ */
+export class IndexerStore {
+  readonly db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  /**
+   * Binds the database to one chain and contract, refusing to mix events from another deployment.
+   */
+  assertScope(chainId: bigint, contractAddress: string) {
+    const scope = `${chainId}:${contractAddress.toLowerCase()}`;
+    const stored = this.getMeta("scope");
+    if (stored === undefined) {
+      this.setMeta("scope", scope);
+    } else if (stored !== scope) {
+      throw new Error(`Database indexes ${stored}, not ${scope}. Use another INDEXER_DB or delete the file.`);
+    }
+  }
+
+  /**
+   * @returns the last fully indexed block, or undefined before the first batch
+   */
+  lastIndexedBlock(): number | undefined {
+    const value = this.getMeta("lastBlock");
+    return value === undefined ? undefined : Number(value);
+  }
+
+  /**
+   * @returns stored block hashes, newest first, used to find the common ancestor after a reorg
+   */
+  recentBlocks(): BlockRef[] {
+    return this.db.prepare("SELECT number, hash FROM blocks ORDER BY number DESC").all() as BlockRef[];
+  }
+
+  applyBatch(batch: IndexedBatch) {
+    const insertBlock = this.db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)");
+    const insertCollection = this.db.prepare(
+      `INSERT INTO collections (id, creator, name, max_supply, hidden_owner, block_number, log_index, tx_hash, timestamp)
+       VALUES (@collectionId, @creator, @name, @maxSupply, @hiddenOwner, @blockNumber, @logIndex, @transactionHash, @timestamp)`,
+    );
+    const insertHiddenOwner = this.db.prepare(
+      `INSERT INTO hidden_owner_updates (collection_id, hidden_owner, block_number, log_index, tx_hash, timestamp)
+       VALUES (@collectionId, @hiddenOwner, @blockNumber, @logIndex, @transactionHash, @timestamp)`,
+    );
+    const insertCreatorTransfer = this.db.prepare(
+      `INSERT INTO creator_transfers (collection_id, previous_creator, new_creator, block_number, log_index, tx_hash, timestamp)
+       VALUES (@collectionId, @previousCreator, @newCreator, @blockNumber, @logIndex, @transactionHash, @timestamp)`,
+    );
+    const insertMint = this.db.prepare(
+      `INSERT INTO mints (collection_id, token_id, minter, block_number, log_index, tx_hash, timestamp)
+       VALUES (@collectionId, @tokenId, @to, @blockNumber, @logIndex, @transactionHash, @timestamp)`,
+    );
+    const insertTransfer = this.db.prepare(
+      `INSERT INTO transfers (token_id, from_address, to_address, block_number, log_index, tx_hash, timestamp)
+       VALUES (@tokenId, @from, @to, @blockNumber, @logIndex, @transactionHash, @timestamp)`,
+    );
+
+    this.db.transaction(() => {
+      for (const block of batch.blocks) {
+        insertBlock.run(block.number, block.hash);
+      }
+      for (const event of batch.events) {
+        switch (event.kind) {
+          case "CollectionCreated":
+            insertCollection.run(event);
+            break;
+          case "HiddenOwnerUpdated":
+            insertHiddenOwner.run(event);
+            break;
+          case "CreatorTransferred":
+            insertCreatorTransfer.run(event);
+            break;
+          case "Minted":
+            insertMint.run(event);
+            break;
+          case "Transfer":
+            insertTransfer.run(event);
+            break;
+        }
+      }
+      this.db.prepare("DELETE FROM blocks WHERE number < ?").run(batch.pruneBelow);
+      this.setMeta("lastBlock", String(batch.toBlock));
+    })();
+  }
+
+  /**
+   * Drops every block and event above `blockNumber` and rewinds the cursor to it.
+   */
+  rollbackTo(blockNumber: number) {
+    this.db.transaction(() => {
+      for (const table of EVENT_TABLES) {
+        this.db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(blockNumber);
+      }
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+      this.setMeta("lastBlock", String(blockNumber));
+    })();
+  }
+
+  status() {
+    return {
+      lastBlock: this.lastIndexedBlock() ?? null,
+      collections: this.count("collections"),
+      mints: this.count("mints"),
+      transfers: this.count("transfers"),
+    };
+  }
+
+  listCollections(page: Page, creator?: string) {
+    const filter = creator ? `WHERE ${CURRENT_CREATOR} = @creator` : "";
+    return this.db
+      .prepare(`SELECT ${COLLECTION_COLUMNS} FROM collections c ${filter} ORDER BY c.id LIMIT @limit OFFSET @offset`)
+      .all({ ...page, creator });
+  }
+
+  getCollection(collectionId: number) {
+    return this.db.prepare(`SELECT ${COLLECTION_COLUMNS} FROM collections c WHERE c.id = ?`).get(collectionId);
+  }
+
+  listHiddenOwnerUpdates(collectionId: number) {
+    return this.db
+      .prepare(
+        `SELECT hidden_owner AS hiddenOwner, block_number AS blockNumber, tx_hash AS transactionHash, timestamp
+         FROM hidden_owner_updates WHERE collection_id = ? ORDER BY block_number, log_index`,
+      )
+      .all(collectionId);
+  }
+
+  listMints(page: Page, filter: { collectionId?: number; minter?: string } = {}) {
+    return this.db
+      .prepare(
+        `SELECT collection_id AS collectionId, token_id AS tokenId, minter, block_number AS blockNumber,
+           tx_hash AS transactionHash, timestamp
+         FROM mints
+         WHERE (@collectionId IS NULL OR collection_id = @collectionId) AND (@minter IS NULL OR minter = @minter)
+         ORDER BY block_number DESC, log_index DESC LIMIT @limit OFFSET @offset`,
+      )
+      .all({ ...page, collectionId: filter.collectionId ?? null, minter: filter.minter ?? null });
+  }
+
+  listTransfers(page: Page, filter: { tokenId?: number; address?: string } = {}) {
+    return this.db
+      .prepare(
+        `SELECT token_id AS tokenId, from_address AS "from", to_address AS "to", block_number AS blockNumber,
+           tx_hash AS transactionHash, timestamp
+         FROM transfers
+         WHERE (@tokenId IS NULL OR token_id = @tokenId)
+           AND (@address IS NULL OR from_address = @address OR to_address = @address)
+         ORDER BY block_number DESC, log_index DESC LIMIT @limit OFFSET @offset`,
+      )
+      .all({ ...page, tokenId: filter.tokenId ?? null, address: filter.address ?? null });
+  }
+
+  getToken(tokenId: number) {
+    return this.db
+      .prepare(
+        `${TOKEN_OWNERS}
+         SELECT m.token_id AS tokenId, m.collection_id AS collectionId, owners.owner AS owner, m.minter AS minter,
+           m.block_number AS mintedBlock, m.timestamp AS mintedAt
+         FROM mints m LEFT JOIN owners ON owners.token_id = m.token_id
+         WHERE m.token_id = ?`,
+      )
+      .get(tokenId);
+  }
+
+  listHolders(collectionId: number) {
+    return this.db
+      .prepare(
+        `${TOKEN_OWNERS}
+         SELECT owner, COUNT(*) AS balance FROM owners WHERE collection_id = ?
+         GROUP BY owner ORDER BY balance DESC, owner`,
+      )
+      .all(collectionId);
+  }
+
+  listTokensOf(owner: string) {
+    return this.db
+      .prepare(
+        `${TOKEN_OWNERS}
+         SELECT token_id AS tokenId, collection_id AS collectionId FROM owners WHERE owner = ? ORDER BY token_id`,
+      )
+      .all(owner);
+  }
+
+  private count(table: (typeof EVENT_TABLES)[number]) {
+    return (this.db.prepare(`SELECT COUNT(*) AS total FROM ${table}`).get() as { total: number }).total;
+  }
+
+  private getMeta(key: string): string | undefined {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  private setMeta(key: string, value: string) {
+    this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(key, value);
+  }
+}
@@ -0,0 +1,48 @@
+import { JsonRpcProvider } from "ethers";
+
+import { createApiServer } from "./api";
+import { loadConfig } from "./config";
+import { IndexerStore } from "./db";
+import { NovaMintIndexer, type SyncResult } from "./indexer";
+
+export { IndexerAnalytics, type AnalyticsFilter, type Bucket } from "./analytics";
+export { createApiServer } from "./api";
+export { loadConfig, type IndexerConfig } from "./config";
+export { IndexerStore, type IndexedEvent } from "./db";
+export { NovaMintIndexer, type IndexerOptions, type SyncResult } from "./indexer";
+
+function main() {
+  const config = loadConfig();
+  const provider = new JsonRpcProvider(config.rpcUrl, undefined, { staticNetwork: true });
+  const store = new IndexerStore(config.databasePath);
+  const indexer = new NovaMintIndexer(provider, store, config);
+
+  indexer.on("indexed", (result: SyncResult) => {
+    const reorg = result.rolledBackTo !== undefined ? ` after rolling back to block ${result.rolledBackTo}` : "";
+    console.log(`Indexed blocks ${result.fromBlock}-${result.toBlock} (${result.events} events)${reorg}`);
+  });
+  indexer.on("error", (error: unknown) => {
+    console.error("Indexer sync failed:", error instanceof Error ? error.message : error);
+  });
+
+  const server = createApiServer(store, indexer);
+  server.listen(config.port, () => {
+    console.log(`Indexing NovaMint ${config.contractAddress} from ${config.rpcUrl} into ${config.databasePath}`);
+    console.log(`API listening on http://localhost:${config.port}`);
+  });
+  indexer.start(config.pollIntervalMs);
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close();
+    // Server-sent event streams keep connections open, so close them explicitly.
+    server.closeAllConnections();
+    store.close();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,233 @@
+import { EventEmitter } from "events";
+import type { Block, Log, Provider } from "ethers";
+
+import { INDEXED_TOPICS, novaMintInterface } from "./abi";
+import type { IndexerConfig } from "./config";
+import type { BlockRef, IndexedEvent, IndexerStore } from "./db";
+
+export type IndexerOptions = Pick<
+  IndexerConfig,
+  "contractAddress" | "startBlock" | "confirmations" | "batchSize" | "reorgDepth"
+>;
+
+export type SyncResult = {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  collectionIds: number[];
+  rolledBackTo?: number;
+};
+
+function toIndexedEvent(log: Log, timestamp: number): IndexedEvent | undefined {
+  const parsed = novaMintInterface.parseLog(log);
+  if (!parsed) {
+    return undefined;
+  }
+
+  const position = {
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    transactionHash: log.transactionHash,
+    timestamp,
+  };
+  const args = parsed.args;
+  switch (parsed.name) {
+    case "CollectionCreated":
+      return {
+        ...position,
+        kind: "CollectionCreated",
+        collectionId: Number(args.id),
+        creator: args.creator,
+        name: args.name,
+        maxSupply: Number(args.maxSupply),
+        hiddenOwner: args.hiddenOwner,
+      };
+    case "HiddenOwnerUpdated":
+      return { ...position, kind: "HiddenOwnerUpdated", collectionId: Number(args.id), hiddenOwner: args.hiddenOwner };
+    case "CreatorTransferred":
+      return {
+        ...position,
+        kind: "CreatorTransferred",
+        collectionId: Number(args.id),
+        previousCreator: args.previousCreator,
+        newCreator: args.newCreator,
+      };
+    case "Minted":
+      return {
+        ...position,
+        kind: "Minted",
+        collectionId: Number(args.collectionId),
+        tokenId: Number(args.tokenId),
+        to: args.to,
+      };
+    case "Transfer":
+      return { ...position, kind: "Transfer", tokenId: Number(args.tokenId), from: args.from, to: args.to };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Follows a JSON-RPC node and copies NovaMint events into an {@link IndexerStore}.
+ *
+ * Emits `indexed` with a {@link SyncResult} whenever the store changed and `error` when a sync pass fails.
+ */
+export class NovaMintIndexer extends EventEmitter {
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+  private scopeChecked = false;
+
+  constructor(
+    private readonly provider: Provider,
+    private readonly store: IndexerStore,
+    private readonly options: IndexerOptions,
+  ) {
+    super();
+  }
+
+  /**
+   * Rolls back orphaned blocks, then indexes every confirmed block up to the current head.
+   * @returns what changed, or undefined when the store was already up to date
+   */
+  async sync(): Promise<SyncResult | undefined> {
+    if (!this.scopeChecked) {
+      const { chainId } = await this.provider.getNetwork();
+      this.store.assertScope(chainId, this.options.contractAddress);
+      this.scopeChecked = true;
+    }
+
+    const rolledBackTo = await this.rollbackOrphanedBlocks();
+    const head = await this.provider.getBlockNumber();
+    const target = head - this.options.confirmations;
+    const fromBlock = (this.store.lastIndexedBlock() ?? this.options.startBlock - 1) + 1;
+
+    let events = 0;
+    const collectionIds = new Set<number>();
+    let next = fromBlock;
+    while (next <= target) {
+      const toBlock = Math.min(target, next + this.options.batchSize - 1);
+      const batch = await this.fetchBatch(next, toBlock);
+      if (!batch) {
+        // The chain moved while the batch was fetched; the next pass rolls back and retries.
+        break;
+      }
+      this.store.applyBatch({
+        toBlock,
+        blocks: batch.blocks,
+        events: batch.events,
+        pruneBelow: toBlock - this.options.reorgDepth + 1,
+      });
+      events += batch.events.length;
+      for (const event of batch.events) {
+        if ("collectionId" in event) {
+          collectionIds.add(event.collectionId);
+        }
+      }
+      next = toBlock + 1;
+    }
+
+    if (next === fromBlock && rolledBackTo === undefined) {
+      return undefined;
+    }
+    const result: SyncResult = {
+      fromBlock,
+      toBlock: next - 1,
+      events,
+      collectionIds: [...collectionIds],
+      rolledBackTo,
+    };
+    this.emit("indexed", result);
+    return result;
+  }
+
+  /**
+   * Polls the node every `pollIntervalMs` until {@link stop} is called.
+   */
+  start(pollIntervalMs: number) {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    const tick = async () => {
+      try {
+        await this.sync();
+      } catch (error) {
+        this.emit("error", error);
+      }
+      if (this.running) {
+        this.timer = setTimeout(tick, pollIntervalMs);
+      }
+    };
+    void tick();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Walks the stored block hashes from newest to oldest and rewinds the store to the newest block that is
+   * still canonical.
+   * @returns the block the store was rewound to, or undefined when no reorg happened
+   */
+  private async rollbackOrphanedBlocks(): Promise<number | undefined> {
+    const stored = this.store.recentBlocks();
+    for (const [position, block] of stored.entries()) {
+      const canonical = await this.provider.getBlock(block.number);
+      if (canonical?.hash === block.hash) {
+        if (position === 0) {
+          return undefined;
+        }
+        this.store.rollbackTo(block.number);
+        return block.number;
+      }
+    }
+    if (stored.length) {
+      throw new Error(
+        `Chain reorganised below block ${stored[stored.length - 1].number}. Delete the database to re-index.`,
+      );
+    }
+    return undefined;
+  }
+
+  private async fetchBatch(fromBlock: number, toBlock: number) {
+    const tip = await this.provider.getBlock(toBlock);
+    const logs = await this.provider.getLogs({
+      address: this.options.contractAddress,
+      topics: [INDEXED_TOPICS],
+      fromBlock,
+      toBlock,
+    });
+
+    const headers = new Map<number, Block>();
+    for (const blockNumber of new Set([...logs.map((log) => log.blockNumber), toBlock])) {
+      const header = await this.provider.getBlock(blockNumber);
+      if (!header?.hash) {
+        return undefined;
+      }
+      headers.set(blockNumber, header);
+    }
+
+    if (tip?.hash !== headers.get(toBlock)!.hash) {
+      return undefined;
+    }
+    if (logs.some((log) => headers.get(log.blockNumber)!.hash !== log.blockHash)) {
+      return undefined;
+    }
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const event = toIndexedEvent(log, headers.get(log.blockNumber)!.timestamp);
+      if (event) {
+        events.push(event);
+      }
+    }
+    const blocks: BlockRef[] = [...headers.values()].map((header) => ({ number: header.number, hash: header.hash! }));
+    return { blocks, events };
+  }
+}
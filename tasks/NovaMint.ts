@@ -1,3 +1,4 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
 import { task } from "hardhat/config";
 import type { TaskArguments } from "hardhat/types";
 
@@ -14,6 +15,14 @@ task("task:create-collection", "Create a new encrypted-owner collection")
   .addParam("name", "Collection name")
   .addParam("supply", "Maximum supply for the collection")
   .addOptionalParam("owner", "Hidden owner address (defaults to sender)")
+  .addOptionalParam("maxPerWallet", "Maximum tokens a single wallet may mint (0 for no limit)", "0")
+  .addOptionalParam("price", "Mint price per token in ETH", "0")
+  .addOptionalParam("description", "Collection description", "")
+  .addOptionalParam("image", "Collection image URI", "")
+  .addOptionalParam("baseUri", "Token metadata base URI (tokenURI = baseUri + tokenId)", "")
+  .addOptionalParam("mintStart", "Unix timestamp when minting opens (0 to open immediately)", "0")
+  .addOptionalParam("mintEnd", "Unix timestamp when minting closes (0 for no end)", "0")
+  .addOptionalParam("royaltyBps", "Resale royalty in basis points (500 = 5%)", "0")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments, fhevm } = hre;
 
@@ -25,6 +34,17 @@ task("task:create-collection", "Create a new encrypted-owner collection")
 
     const hiddenOwner = (taskArguments.owner as string | undefined) ?? creator.address;
     const maxSupply = BigInt(taskArguments.supply as string);
+    const maxPerWallet = BigInt(taskArguments.maxPerWallet as string);
+    const mintPrice = ethers.parseEther(taskArguments.price as string);
+    const metadata = {
+      description: taskArguments.description as string,
+      image: taskArguments.image as string,
+      baseURI: taskArguments.baseUri as string,
+    };
+    const mintWindow = {
+      start: BigInt(taskArguments.mintStart as string),
+      end: BigInt(taskArguments.mintEnd as string),
+    };
 
     const encryptedOwner = await fhevm
       .createEncryptedInput(novaMint.address, creator.address)
@@ -33,7 +53,17 @@ task("task:create-collection", "Create a new encrypted-owner collection")
 
     const tx = await contract
       .connect(creator)
-      .createCollection(taskArguments.name as string, maxSupply, encryptedOwner.handles[0], encryptedOwner.inputProof);
+      .createCollection(
+        taskArguments.name as string,
+        metadata,
+        maxSupply,
+        maxPerWallet,
+        mintPrice,
+        mintWindow,
+        BigInt(taskArguments.royaltyBps as string),
+        encryptedOwner.handles[0],
+        encryptedOwner.inputProof,
+      );
 
     console.log(`Creating collection "${taskArguments.name}" with supply ${maxSupply}...`);
     const receipt = await tx.wait();
@@ -42,6 +72,7 @@ task("task:create-collection", "Create a new encrypted-owner collection")
 
 task("task:mint", "Mint a token from a collection")
   .addParam("collectionId", "Collection id to mint from")
+  .addOptionalParam("quantity", "Number of tokens to mint", "1")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments } = hre;
 
@@ -50,9 +81,12 @@ task("task:mint", "Mint a token from a collection")
     const [minter] = await ethers.getSigners();
 
     const collectionId = Number(taskArguments.collectionId);
-    const tx = await contract.connect(minter).mint(collectionId);
+    const quantity = BigInt(taskArguments.quantity as string);
+    const { mintPrice } = await contract.getCollection(collectionId);
+    const value = mintPrice * quantity;
+    const tx = await contract.connect(minter).mintBatch(collectionId, quantity, { value });
 
-    console.log(`Minting from collection ${collectionId}...`);
+    console.log(`Minting ${quantity} token(s) from collection ${collectionId} for ${ethers.formatEther(value)} ETH...`);
     const receipt = await tx.wait();
     console.log(`tx ${tx.hash} status ${receipt?.status}`);
   });
@@ -74,3 +108,484 @@ task("task:decrypt-hidden", "Decrypt the hidden owner for a collection (requires
 
     console.log(`Hidden owner for collection ${collectionId}: ${decrypted}`);
   });
+
+task("task:reveal-hidden", "Publicly reveal the hidden owner of a collection on-chain (creator only)")
+  .addParam("collectionId", "Collection id to reveal")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [creator] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const collection = await contract.getCollection(collectionId);
+    if (!collection.revealPending) {
+      const requestTx = await contract.connect(creator).requestReveal(collectionId);
+      console.log(`Requesting reveal of collection ${collectionId}...`);
+      await requestTx.wait();
+    }
+
+    const decryption = await fhevm.publicDecrypt([collection.hiddenOwner]);
+    const finalizeTx = await contract
+      .connect(creator)
+      .finalizeReveal(collectionId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+
+    const receipt = await finalizeTx.wait();
+    const revealed = await contract.getCollection(collectionId);
+    console.log(`tx ${finalizeTx.hash} status ${receipt?.status} revealed owner ${revealed.revealedOwner}`);
+  });
+
+const OWNER_ACTIONS = ["rotate", "withdraw", "set-price", "allowlist"] as const;
+
+task("task:owner-action", "Act on a collection as its encrypted hidden owner")
+  .addParam("collectionId", "Collection id to act on")
+  .addParam("action", `One of ${OWNER_ACTIONS.join(", ")}`)
+  .addOptionalParam("owner", "New hidden owner address for rotate")
+  .addOptionalParam("price", "New mint price in ETH for set-price")
+  .addOptionalParam("enabled", "true or false for allowlist", "true")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [caller] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const kind = OWNER_ACTIONS.indexOf(taskArguments.action as (typeof OWNER_ACTIONS)[number]);
+    if (kind === -1) {
+      throw new Error(`Unknown action "${taskArguments.action}", expected one of ${OWNER_ACTIONS.join(", ")}`);
+    }
+
+    let actionId: bigint;
+    if (taskArguments.action === "rotate") {
+      if (!taskArguments.owner) {
+        throw new Error("--owner is required to rotate the hidden owner");
+      }
+      const encryptedOwner = await fhevm
+        .createEncryptedInput(novaMint.address, caller.address)
+        .addAddress(taskArguments.owner as string)
+        .encrypt();
+      actionId = await contract
+        .connect(caller)
+        .requestHiddenOwnerRotation.staticCall(collectionId, encryptedOwner.handles[0], encryptedOwner.inputProof);
+      const requestTx = await contract
+        .connect(caller)
+        .requestHiddenOwnerRotation(collectionId, encryptedOwner.handles[0], encryptedOwner.inputProof);
+      await requestTx.wait();
+    } else {
+      let value = 0n;
+      if (taskArguments.action === "set-price") {
+        value = ethers.parseEther((taskArguments.price as string | undefined) ?? "0");
+      } else if (taskArguments.action === "allowlist") {
+        value = taskArguments.enabled === "true" ? 1n : 0n;
+      }
+      actionId = await contract.connect(caller).requestOwnerAction.staticCall(collectionId, kind, value);
+      const requestTx = await contract.connect(caller).requestOwnerAction(collectionId, kind, value);
+      await requestTx.wait();
+    }
+    console.log(
+      `Requested ${taskArguments.action} as hidden owner of collection ${collectionId} (action ${actionId})...`,
+    );
+
+    const action = await contract.ownerAction(actionId);
+    const decryption = await fhevm.publicDecrypt([action.authorized]);
+    const finalizeTx = await contract
+      .connect(caller)
+      .finalizeOwnerAction(actionId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+
+    const receipt = await finalizeTx.wait();
+    const { status } = await contract.ownerAction(actionId);
+    console.log(
+      `tx ${finalizeTx.hash} status ${receipt?.status} ${status === 2n ? "executed" : "rejected: caller is not the hidden owner"}`,
+    );
+  });
+
+task("task:viewer-grant", "Let another address decrypt the hidden owner of a collection (creator only)")
+  .addParam("collectionId", "Collection id to share")
+  .addParam("viewer", "Address allowed to decrypt the hidden owner")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [creator] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const tx = await contract.connect(creator).grantViewer(collectionId, taskArguments.viewer as string);
+
+    console.log(`Granting ${taskArguments.viewer} access to the hidden owner of collection ${collectionId}...`);
+    const receipt = await tx.wait();
+    console.log(`tx ${tx.hash} status ${receipt?.status}`);
+  });
+
+task("task:viewer-revoke", "Revoke a viewer and move the hidden owner to a fresh handle (creator only)")
+  .addParam("collectionId", "Collection id to update")
+  .addParam("viewer", "Address to revoke")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [creator] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const tx = await contract.connect(creator).revokeViewer(collectionId, taskArguments.viewer as string);
+
+    console.log(`Revoking ${taskArguments.viewer} from collection ${collectionId}...`);
+    const receipt = await tx.wait();
+    const viewers = await contract.viewers(collectionId);
+    console.log(`tx ${tx.hash} status ${receipt?.status} remaining viewers: ${viewers.join(", ") || "none"}`);
+  });
+
+task("task:creator-transfer", "Offer the creator role of a collection to another address (creator only)")
+  .addParam("collectionId", "Collection id to transfer")
+  .addParam("to", "Address that may accept the creator role (zero address cancels)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [creator] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const tx = await contract.connect(creator).transferCreator(collectionId, taskArguments.to as string);
+
+    console.log(`Offering the creator role of collection ${collectionId} to ${taskArguments.to}...`);
+    const receipt = await tx.wait();
+    console.log(`tx ${tx.hash} status ${receipt?.status}`);
+  });
+
+task("task:creator-accept", "Accept a pending creator role transfer")
+  .addParam("collectionId", "Collection id to accept")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [newCreator] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const tx = await contract.connect(newCreator).acceptCreator(collectionId);
+
+    console.log(`Accepting the creator role of collection ${collectionId} as ${newCreator.address}...`);
+    const receipt = await tx.wait();
+    console.log(`tx ${tx.hash} status ${receipt?.status}`);
+  });
+
+task("task:creator-renounce", "Permanently give up the creator role of a collection (creator only)")
+  .addParam("collectionId", "Collection id to renounce")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [creator] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const tx = await contract.connect(creator).renounceCreator(collectionId);
+
+    console.log(`Renouncing the creator role of collection ${collectionId}...`);
+    const receipt = await tx.wait();
+    console.log(`tx ${tx.hash} status ${receipt?.status}`);
+  });
+
+task("task:allowlist-set", "Upload encrypted allowlist allowances for a collection (creator only)")
+  .addParam("collectionId", "Collection id to update")
+  .addParam("accounts", "Comma-separated addresses")
+  .addOptionalParam("allowances", "Comma-separated mint allowances, one per address (defaults to 1 each)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [creator] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const accounts = (taskArguments.accounts as string).split(",").map((account) => account.trim());
+    const allowances = taskArguments.allowances
+      ? (taskArguments.allowances as string).split(",").map((allowance) => Number(allowance.trim()))
+      : accounts.map(() => 1);
+    if (allowances.length !== accounts.length) {
+      throw new Error(`Expected ${accounts.length} allowances, got ${allowances.length}`);
+    }
+
+    const input = fhevm.createEncryptedInput(novaMint.address, creator.address);
+    for (const allowance of allowances) {
+      input.add32(allowance);
+    }
+    const encrypted = await input.encrypt();
+
+    const tx = await contract
+      .connect(creator)
+      .setAllowlist(collectionId, accounts, encrypted.handles, encrypted.inputProof);
+
+    console.log(`Uploading ${accounts.length} encrypted allowance(s) to collection ${collectionId}...`);
+    const receipt = await tx.wait();
+    console.log(`tx ${tx.hash} status ${receipt?.status}`);
+  });
+
+task("task:allowlist-enable", "Turn allowlist-gated minting on or off (creator only)")
+  .addParam("collectionId", "Collection id to update")
+  .addOptionalParam("enabled", "true to require an allowance, false for public minting", "true")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [creator] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const enabled = taskArguments.enabled === "true";
+    const tx = await contract.connect(creator).setAllowlistEnabled(collectionId, enabled);
+
+    console.log(`${enabled ? "Enabling" : "Disabling"} allowlist for collection ${collectionId}...`);
+    const receipt = await tx.wait();
+    console.log(`tx ${tx.hash} status ${receipt?.status}`);
+  });
+
+task("task:allowlist-mint", "Mint from an allowlist collection and finalize with the public decryption proof")
+  .addParam("collectionId", "Collection id to mint from")
+  .addOptionalParam("quantity", "Number of tokens to mint", "1")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [minter] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const quantity = BigInt(taskArguments.quantity as string);
+    const { mintPrice } = await contract.getCollection(collectionId);
+    const value = mintPrice * quantity;
+    const requestId = await contract.connect(minter).requestAllowlistMint.staticCall(collectionId, quantity, { value });
+    const requestTx = await contract.connect(minter).requestAllowlistMint(collectionId, quantity, { value });
+
+    console.log(`Requesting allowlist mint ${requestId} from collection ${collectionId}...`);
+    await requestTx.wait();
+
+    const request = await contract.allowlistRequest(requestId);
+    const decryption = await fhevm.publicDecrypt([request.approved]);
+    const finalizeTx = await contract
+      .connect(minter)
+      .finalizeAllowlistMint(requestId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+
+    const receipt = await finalizeTx.wait();
+    const approved = decryption.clearValues[request.approved as `0x${string}`];
+    console.log(
+      `tx ${finalizeTx.hash} status ${receipt?.status} ${approved ? "minted" : "rejected: no remaining allowance, payment credited to your refunds (task:withdraw-refund)"}`,
+    );
+  });
+
+task("task:allowlist-cancel", "Cancel an allowlist mint that was not finalized within a day (anyone)")
+  .addParam("requestId", "Allowlist mint request id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [caller] = await ethers.getSigners();
+
+    const requestId = BigInt(taskArguments.requestId as string);
+    const tx = await contract.connect(caller).cancelAllowlistMint(requestId);
+
+    console.log(`Cancelling allowlist mint ${requestId}...`);
+    const receipt = await tx.wait();
+    const { minter, payment } = await contract.allowlistRequest(requestId);
+    console.log(`tx ${tx.hash} status ${receipt?.status}; ${ethers.formatEther(payment)} ETH credited to ${minter}`);
+  });
+
+task("task:withdraw-refund", "Withdraw the caller's refunded allowlist payments").setAction(async function (
+  _taskArguments: TaskArguments,
+  hre,
+) {
+  const { ethers, deployments } = hre;
+
+  const novaMint = await deployments.get(CONTRACT_NAME);
+  const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+  const [caller] = await ethers.getSigners();
+
+  const amount = await contract.refundOf(caller.address);
+  if (amount === 0n) {
+    console.log(`${caller.address} has no refunds to withdraw`);
+    return;
+  }
+  const tx = await contract.connect(caller).withdrawRefund();
+
+  console.log(`Withdrawing ${ethers.formatEther(amount)} ETH of refunds to ${caller.address}...`);
+  const receipt = await tx.wait();
+  console.log(`tx ${tx.hash} status ${receipt?.status}`);
+});
+
+task("task:allowlist-allowance", "Decrypt the remaining allowlist allowance of the caller")
+  .addParam("collectionId", "Collection id to check")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [caller] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const allowance = await contract.allowlistAllowance(collectionId, caller.address);
+    if (allowance === ethers.ZeroHash) {
+      console.log(`${caller.address} is not on the allowlist for collection ${collectionId}`);
+      return;
+    }
+
+    const decrypted = await fhevm.userDecryptEuint(FhevmType.euint32, allowance, novaMint.address, caller);
+    console.log(`Remaining allowance for ${caller.address} in collection ${collectionId}: ${decrypted}`);
+  });
+
+task("task:set-price", "Update the per-token mint price of a collection (creator only)")
+  .addParam("collectionId", "Collection id to update")
+  .addParam("price", "Mint price per token in ETH")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [creator] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const mintPrice = ethers.parseEther(taskArguments.price as string);
+    const tx = await contract.connect(creator).setMintPrice(collectionId, mintPrice);
+
+    console.log(`Setting mint price of collection ${collectionId} to ${taskArguments.price} ETH...`);
+    const receipt = await tx.wait();
+    console.log(`tx ${tx.hash} status ${receipt?.status}`);
+  });
+
+task("task:set-royalty", "Update the resale royalty of a collection (creator only)")
+  .addParam("collectionId", "Collection id to update")
+  .addParam("royaltyBps", "Resale royalty in basis points (500 = 5%)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [creator] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const royaltyBps = BigInt(taskArguments.royaltyBps as string);
+    const tx = await contract.connect(creator).setRoyalty(collectionId, royaltyBps);
+
+    console.log(`Setting royalty of collection ${collectionId} to ${royaltyBps} bps...`);
+    const receipt = await tx.wait();
+    console.log(`tx ${tx.hash} status ${receipt?.status}`);
+    const { royaltyReceiver } = await contract.getCollection(collectionId);
+    console.log(`Royalty receiver: ${royaltyReceiver}`);
+  });
+
+task("task:sweep-royalties", "Move royalties paid to a collection's receiver into its balance (anyone)")
+  .addParam("collectionId", "Collection id to sweep")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [caller] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const { royaltyReceiver } = await contract.getCollection(collectionId);
+    if (royaltyReceiver === ethers.ZeroAddress) {
+      throw new Error(`Collection ${collectionId} has never had a royalty`);
+    }
+    const receiver = await ethers.getContractAt("RoyaltyReceiver", royaltyReceiver);
+    const amount = await ethers.provider.getBalance(royaltyReceiver);
+    const tx = await receiver.connect(caller).sweep();
+
+    console.log(
+      `Sweeping ${ethers.formatEther(amount)} ETH from ${royaltyReceiver} into collection ${collectionId}...`,
+    );
+    const receipt = await tx.wait();
+    console.log(`tx ${tx.hash} status ${receipt?.status}`);
+  });
+
+task("task:mint-window", "Schedule when minting opens and closes for a collection (creator only)")
+  .addParam("collectionId", "Collection id to update")
+  .addOptionalParam("start", "Unix timestamp when minting opens (0 to open immediately)", "0")
+  .addOptionalParam("end", "Unix timestamp when minting closes (0 for no end)", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [creator] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const mintWindow = { start: BigInt(taskArguments.start as string), end: BigInt(taskArguments.end as string) };
+    const tx = await contract.connect(creator).setMintWindow(collectionId, mintWindow);
+
+    console.log(`Setting mint window of collection ${collectionId} to ${mintWindow.start}-${mintWindow.end}...`);
+    const receipt = await tx.wait();
+    console.log(`tx ${tx.hash} status ${receipt?.status}`);
+  });
+
+task("task:pause", "Pause or resume minting from a collection (creator only)")
+  .addParam("collectionId", "Collection id to update")
+  .addOptionalParam("paused", "true to stop minting, false to resume it", "true")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [creator] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const paused = taskArguments.paused === "true";
+    const tx = paused
+      ? await contract.connect(creator).pause(collectionId)
+      : await contract.connect(creator).unpause(collectionId);
+
+    console.log(`${paused ? "Pausing" : "Resuming"} minting for collection ${collectionId}...`);
+    const receipt = await tx.wait();
+    console.log(`tx ${tx.hash} status ${receipt?.status}`);
+  });
+
+task("task:withdraw", "Withdraw a collection's mint proceeds to its hidden owner (creator only)")
+  .addParam("collectionId", "Collection id to withdraw from")
+  .addOptionalParam("recipient", "Payout address (defaults to the decrypted hidden owner)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [creator] = await ethers.getSigners();
+
+    const collectionId = Number(taskArguments.collectionId);
+    const recipient =
+      (taskArguments.recipient as string | undefined) ??
+      (await fhevm.userDecryptEaddress(await contract.hiddenOwner(collectionId), novaMint.address, creator));
+    const requestId = await contract.connect(creator).requestWithdrawal.staticCall(collectionId, recipient);
+    const requestTx = await contract.connect(creator).requestWithdrawal(collectionId, recipient);
+
+    console.log(`Requesting withdrawal ${requestId} from collection ${collectionId} to ${recipient}...`);
+    await requestTx.wait();
+
+    const request = await contract.withdrawalRequest(requestId);
+    const decryption = await fhevm.publicDecrypt([request.matches]);
+    const finalizeTx = await contract
+      .connect(creator)
+      .finalizeWithdrawal(requestId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+
+    const receipt = await finalizeTx.wait();
+    const paid = decryption.clearValues[request.matches as `0x${string}`];
+    console.log(
+      `tx ${finalizeTx.hash} status ${receipt?.status} ${
+        paid ? `paid ${ethers.formatEther(request.amount)} ETH` : "rejected: recipient is not the hidden owner"
+      }`,
+    );
+  });
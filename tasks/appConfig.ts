@@ -0,0 +1,107 @@
+import { Interface, type InterfaceAbi } from "ethers";
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import path from "path";
+
+const CONTRACT_NAME = "NovaMint";
+const DEPLOYMENTS_DIR = path.resolve(__dirname, "../deployments");
+
+/** Typed address and ABI module consumed by the frontend. */
+const APP_CONFIG_PATH = path.resolve(__dirname, "../app/src/config/contracts.ts");
+
+type Deployment = { address: string; abi: InterfaceAbi };
+
+/**
+ * Addresses already in the generated module. Chains without a local `deployments/` folder (the folder is not
+ * committed) keep their entry, so regenerating on one machine never drops another network's deployment.
+ */
+function readGeneratedAddresses(file: string): Map<number, string> {
+  const addresses = new Map<number, string>();
+  if (!existsSync(file)) {
+    return addresses;
+  }
+  const block = /export const CONTRACT_ADDRESSES = \{([^}]*)\}/.exec(readFileSync(file, "utf8"))?.[1] ?? "";
+  for (const [, chainId, address] of block.matchAll(/(\d+): '(0x[0-9a-fA-F]{40})'/g)) {
+    addresses.set(Number(chainId), address);
+  }
+  return addresses;
+}
+
+function readDeployments(): { network: string; chainId: number; deployment: Deployment }[] {
+  if (!existsSync(DEPLOYMENTS_DIR)) {
+    return [];
+  }
+  return readdirSync(DEPLOYMENTS_DIR).flatMap((network) => {
+    const dir = path.join(DEPLOYMENTS_DIR, network);
+    const file = path.join(dir, `${CONTRACT_NAME}.json`);
+    if (!existsSync(file) || !existsSync(path.join(dir, ".chainId"))) {
+      return [];
+    }
+    return [
+      {
+        network,
+        chainId: Number(readFileSync(path.join(dir, ".chainId"), "utf8").trim()),
+        deployment: JSON.parse(readFileSync(file, "utf8")) as Deployment,
+      },
+    ];
+  });
+}
+
+/** Callable signatures, leaving out the constructor that the merged proxy ABI does not carry. */
+function signatures(abi: InterfaceAbi): string[] {
+  return new Interface(abi).fragments
+    .filter((fragment) => fragment.type === "function" || fragment.type === "event" || fragment.type === "error")
+    .map((fragment) => fragment.format("full"));
+}
+
+/** Signatures the compiled contract has but the deployed ABI lacks, i.e. the deployment is out of date. */
+function missingFragments(compiled: InterfaceAbi, deployed: InterfaceAbi): string[] {
+  const deployedSignatures = new Set(signatures(deployed));
+  return signatures(compiled).filter((signature) => !deployedSignatures.has(signature));
+}
+
+function renderAppConfig(abi: InterfaceAbi, addresses: Map<number, string>): string {
+  const entries = [...addresses.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([chainId, address]) => `  ${chainId}: '${address}',\n`)
+    .join("");
+
+  return `// Generated by \`npx hardhat task:app-config\` from the compiled ${CONTRACT_NAME} ABI and deployments/.
+// Do not edit by hand; deploying or upgrading regenerates it.
+
+/** ${CONTRACT_NAME} proxy address per chain id. */
+export const CONTRACT_ADDRESSES = {${entries && `\n${entries}`}} as const satisfies Record<number, \`0x\${string}\`>;
+
+export type SupportedChainId = keyof typeof CONTRACT_ADDRESSES;
+
+export const CONTRACT_ABI = ${JSON.stringify(abi, null, 2)} as const;
+`;
+}
+
+task("task:app-config", "Write the frontend's per-chain NovaMint addresses and ABI from the deployments").setAction(
+  async function (_taskArguments: TaskArguments, hre) {
+    await hre.run("compile", { quiet: true });
+    const { abi } = await hre.artifacts.readArtifact(CONTRACT_NAME);
+
+    const addresses = readGeneratedAddresses(APP_CONFIG_PATH);
+    const kept = new Map(addresses);
+    for (const { network, chainId, deployment } of readDeployments()) {
+      addresses.set(chainId, deployment.address);
+      kept.delete(chainId);
+      const missing = missingFragments(abi, deployment.abi);
+      if (missing.length) {
+        console.warn(`${network} (${chainId}) runs an older ${CONTRACT_NAME}; run task:upgrade there. Missing:`);
+        missing.forEach((signature) => console.warn(`  ${signature}`));
+      }
+    }
+
+    for (const [chainId, address] of kept) {
+      console.warn(`Kept ${address} on chain ${chainId} without a local deployment; check it is the current proxy`);
+    }
+
+    writeFileSync(APP_CONFIG_PATH, renderAppConfig(abi, addresses));
+    const chains = [...addresses.keys()].join(", ") || "none";
+    console.log(`Wrote ${path.relative(process.cwd(), APP_CONFIG_PATH)} for chain ids: ${chains}`);
+  },
+);
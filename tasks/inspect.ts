@@ -0,0 +1,327 @@
+import { formatEther, isError, ZeroAddress } from "ethers";
+import { mkdirSync, writeFileSync } from "fs";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import path from "path";
+
+import type { NovaMint } from "../types";
+
+const CONTRACT_NAME = "NovaMint";
+/** Collections and history records read per call. */
+const PAGE_SIZE = 50n;
+/** `ownerOf` calls in flight at once while walking a collection's tokens. */
+const CONCURRENCY = 20;
+
+/** A collection with every value as a string, so it prints, serializes to JSON and fills a CSV row unchanged. */
+export type CollectionRecord = {
+  id: string;
+  name: string;
+  description: string;
+  image: string;
+  baseURI: string;
+  creator: string;
+  pendingCreator: string;
+  maxSupply: string;
+  minted: string;
+  maxPerWallet: string;
+  mintPrice: string;
+  balance: string;
+  baseTokenId: string;
+  mintStart: string;
+  mintEnd: string;
+  royaltyBps: string;
+  royaltyReceiver: string;
+  hiddenOwner: string;
+  revealedOwner: string;
+  revealPending: string;
+  allowlistEnabled: string;
+  paused: string;
+};
+
+export type TokenRecord = { collectionId: string; tokenId: string; owner: string };
+export type HolderRecord = { holder: string; tokenIds: string[] };
+export type HiddenOwnerRecord = { collectionId: string; position: string; hiddenOwner: string; timestamp: string };
+
+export function toCollectionRecord(view: NovaMint.CollectionViewStructOutput): CollectionRecord {
+  return {
+    id: view.id.toString(),
+    name: view.name,
+    description: view.description,
+    image: view.image,
+    baseURI: view.baseURI,
+    creator: view.creator,
+    pendingCreator: view.pendingCreator,
+    maxSupply: view.maxSupply.toString(),
+    minted: view.minted.toString(),
+    maxPerWallet: view.maxPerWallet.toString(),
+    mintPrice: view.mintPrice.toString(),
+    balance: view.balance.toString(),
+    baseTokenId: view.baseTokenId.toString(),
+    mintStart: view.mintStart.toString(),
+    mintEnd: view.mintEnd.toString(),
+    royaltyBps: view.royaltyBps.toString(),
+    royaltyReceiver: view.royaltyReceiver,
+    hiddenOwner: view.hiddenOwner,
+    revealedOwner: view.revealedOwner,
+    revealPending: String(view.revealPending),
+    allowlistEnabled: String(view.allowlistEnabled),
+    paused: String(view.paused),
+  };
+}
+
+/** Every collection, read page by page through `getCollections`. */
+export async function readCollections(contract: NovaMint): Promise<CollectionRecord[]> {
+  const total = await contract.totalCollections();
+  const records: CollectionRecord[] = [];
+  for (let offset = 0n; offset < total; offset += PAGE_SIZE) {
+    const page = await contract.getCollections(offset, PAGE_SIZE);
+    records.push(...page.map(toCollectionRecord));
+  }
+  return records;
+}
+
+/** Owner of every minted token of a collection; tokens are minted in order from the collection's reserved block. */
+export async function readTokens(contract: NovaMint, collection: CollectionRecord): Promise<TokenRecord[]> {
+  const first = BigInt(collection.baseTokenId);
+  const tokenIds = Array.from({ length: Number(collection.minted) }, (_, index) => first + BigInt(index));
+  const tokens: TokenRecord[] = [];
+  for (let start = 0; start < tokenIds.length; start += CONCURRENCY) {
+    const chunk = tokenIds.slice(start, start + CONCURRENCY);
+    const owners = await Promise.all(chunk.map((tokenId) => contract.ownerOf(tokenId)));
+    chunk.forEach((tokenId, index) =>
+      tokens.push({ collectionId: collection.id, tokenId: tokenId.toString(), owner: owners[index] }),
+    );
+  }
+  return tokens;
+}
+
+/** Tokens grouped by holder, largest holders first. */
+export function groupHolders(tokens: TokenRecord[]): HolderRecord[] {
+  const holders = new Map<string, string[]>();
+  for (const { owner, tokenId } of tokens) {
+    holders.set(owner, [...(holders.get(owner) ?? []), tokenId]);
+  }
+  return [...holders.entries()]
+    .map(([holder, tokenIds]) => ({ holder, tokenIds }))
+    .sort((a, b) => b.tokenIds.length - a.tokenIds.length);
+}
+
+export async function readHiddenOwnerHistory(contract: NovaMint, collectionId: string): Promise<HiddenOwnerRecord[]> {
+  const total = await contract.totalHiddenOwnerHistory(collectionId);
+  const records: HiddenOwnerRecord[] = [];
+  for (let offset = 0n; offset < total; offset += PAGE_SIZE) {
+    const page = await contract.getHiddenOwnerHistory(collectionId, offset, PAGE_SIZE);
+    page.forEach((record, index) =>
+      records.push({
+        collectionId,
+        position: (offset + BigInt(index) + 1n).toString(),
+        hiddenOwner: record.hiddenOwner,
+        timestamp: record.timestamp.toString(),
+      }),
+    );
+  }
+  return records;
+}
+
+function escapeCsv(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** CSV with a header row taken from the first record's keys. */
+export function toCsv(rows: Record<string, string>[]): string {
+  if (!rows.length) {
+    return "";
+  }
+  const columns = Object.keys(rows[0]);
+  const lines = [columns, ...rows.map((row) => columns.map((column) => row[column]))];
+  return `${lines.map((fields) => fields.map(escapeCsv).join(",")).join("\n")}\n`;
+}
+
+async function getContract(hre: HardhatRuntimeEnvironment): Promise<NovaMint> {
+  const novaMint = await hre.deployments.get(CONTRACT_NAME);
+  return hre.ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+}
+
+/** NovaMint custom error a call reverted with; a node and the in-process network report reverts differently. */
+function revertName(contract: NovaMint, error: unknown): string | undefined {
+  if (isError(error, "CALL_EXCEPTION")) {
+    return error.revert?.name;
+  }
+  // Hardhat providers put the revert data on `error.data`, or on `error.data.data` over HTTP.
+  let data = (error as { data?: unknown } | undefined)?.data;
+  if (data && typeof data === "object") {
+    data = (data as { data?: unknown }).data;
+  }
+  if (typeof data !== "string") {
+    return undefined;
+  }
+  try {
+    return contract.interface.parseError(data)?.name;
+  } catch {
+    return undefined;
+  }
+}
+
+async function readCollection(contract: NovaMint, collectionId: string) {
+  try {
+    return toCollectionRecord(await contract.getCollection(collectionId));
+  } catch (error) {
+    if (revertName(contract, error) === "InvalidCollection") {
+      throw new Error(`Collection ${collectionId} does not exist`);
+    }
+    throw error;
+  }
+}
+
+function printJson(value: unknown) {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+task("task:collections", "List every collection")
+  .addFlag("json", "Print full records as JSON instead of a table")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const collections = await readCollections(await getContract(hre));
+
+    if (taskArguments.json) {
+      printJson(collections);
+    } else if (!collections.length) {
+      console.log("No collections yet");
+    } else {
+      console.table(
+        collections.map((collection) => ({
+          id: collection.id,
+          name: collection.name,
+          creator: collection.creator,
+          minted: `${collection.minted}/${collection.maxSupply}`,
+          price: `${formatEther(collection.mintPrice)} ETH`,
+          paused: collection.paused,
+          revealed: collection.revealedOwner === ZeroAddress ? "" : collection.revealedOwner,
+        })),
+      );
+    }
+    return collections;
+  });
+
+task("task:collection", "Show one collection with its viewers and hidden owner history")
+  .addParam("id", "Collection id")
+  .addFlag("json", "Print as JSON")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getContract(hre);
+    const collection = await readCollection(contract, taskArguments.id as string);
+    const details = {
+      ...collection,
+      viewers: [...(await contract.viewers(collection.id))],
+      hiddenOwnerHistory: await readHiddenOwnerHistory(contract, collection.id),
+    };
+
+    if (taskArguments.json) {
+      printJson(details);
+    } else {
+      console.table(collection);
+      console.log(`Viewers: ${details.viewers.join(", ") || "none"}`);
+      console.table(
+        details.hiddenOwnerHistory.map(({ position, hiddenOwner, timestamp }) => ({
+          position,
+          hiddenOwner,
+          setAt: new Date(Number(timestamp) * 1000).toISOString(),
+        })),
+      );
+    }
+    return details;
+  });
+
+task("task:token", "Show whether a token exists, its owner and its collection")
+  .addParam("id", "Token id")
+  .addFlag("json", "Print as JSON")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getContract(hre);
+    const tokenId = taskArguments.id as string;
+
+    let token: { tokenId: string; exists: boolean; owner?: string; collectionId?: string; tokenURI?: string };
+    try {
+      token = {
+        tokenId,
+        exists: true,
+        owner: await contract.ownerOf(tokenId),
+        collectionId: (await contract.tokenCollection(tokenId)).toString(),
+        tokenURI: await contract.tokenURI(tokenId),
+      };
+    } catch (error) {
+      // Unminted ids, including ones reserved for a collection, revert with InvalidToken.
+      if (revertName(contract, error) !== "InvalidToken") {
+        throw error;
+      }
+      token = { tokenId, exists: false };
+    }
+
+    if (taskArguments.json) {
+      printJson(token);
+    } else if (!token.exists) {
+      console.log(`Token ${tokenId} does not exist`);
+    } else {
+      console.log(`Token ${tokenId} of collection ${token.collectionId} is owned by ${token.owner}`);
+      if (token.tokenURI) {
+        console.log(`Token URI: ${token.tokenURI}`);
+      }
+    }
+    return token;
+  });
+
+task("task:holders", "List the holders of a collection's tokens")
+  .addParam("collectionId", "Collection id")
+  .addFlag("json", "Print as JSON")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getContract(hre);
+    const collection = await readCollection(contract, taskArguments.collectionId as string);
+    const holders = groupHolders(await readTokens(contract, collection));
+
+    if (taskArguments.json) {
+      printJson(holders);
+    } else if (!holders.length) {
+      console.log(`Nothing minted from collection ${collection.id} yet`);
+    } else {
+      console.table(
+        holders.map(({ holder, tokenIds }) => ({ holder, tokens: tokenIds.length, tokenIds: tokenIds.join(" ") })),
+      );
+    }
+    return holders;
+  });
+
+task("task:export", "Export collections, token holders and encrypted hidden owner handles for reporting")
+  .addOptionalParam("format", "json or csv", "json")
+  .addOptionalParam("out", "Output directory (defaults to exports/<network>)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const format = taskArguments.format as string;
+    if (format !== "json" && format !== "csv") {
+      throw new Error(`Unknown format "${format}", expected json or csv`);
+    }
+
+    const contract = await getContract(hre);
+    const collections = await readCollections(contract);
+    const tokens: TokenRecord[] = [];
+    const hiddenOwners: HiddenOwnerRecord[] = [];
+    for (const collection of collections) {
+      tokens.push(...(await readTokens(contract, collection)));
+      hiddenOwners.push(...(await readHiddenOwnerHistory(contract, collection.id)));
+    }
+
+    const outDir = path.resolve((taskArguments.out as string | undefined) ?? path.join("exports", hre.network.name));
+    mkdirSync(outDir, { recursive: true });
+    const files =
+      format === "json"
+        ? { "novamint.json": `${JSON.stringify({ collections, tokens, hiddenOwners }, null, 2)}\n` }
+        : {
+            "collections.csv": toCsv(collections),
+            "tokens.csv": toCsv(tokens),
+            "hidden-owners.csv": toCsv(hiddenOwners),
+          };
+    for (const [name, content] of Object.entries(files)) {
+      writeFileSync(path.join(outDir, name), content);
+    }
+
+    console.log(
+      `Exported ${collections.length} collection(s), ${tokens.length} token(s) and ${hiddenOwners.length} hidden ` +
+        `owner handle(s) to ${outDir}`,
+    );
+    return { collections, tokens, hiddenOwners };
+  });
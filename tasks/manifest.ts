@@ -0,0 +1,371 @@
+import { getAddress, isAddress, parseEther } from "ethers";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import path from "path";
+
+const CONTRACT_NAME = "NovaMint";
+const MAX_ROYALTY_BPS = 10_000n;
+
+/** Manifest columns, named like the `task:create-collection` parameters. */
+const COLUMNS = [
+  "name",
+  "supply",
+  "owner",
+  "maxPerWallet",
+  "price",
+  "description",
+  "image",
+  "baseUri",
+  "mintStart",
+  "mintEnd",
+  "royaltyBps",
+] as const;
+
+type RawRow = Partial<Record<(typeof COLUMNS)[number], unknown>>;
+
+/** A validated manifest row, ready to encrypt and submit. */
+export type ManifestRow = {
+  /** 1-based position in the manifest, used in errors and the report. */
+  row: number;
+  name: string;
+  maxSupply: bigint;
+  /** Hidden owner; undefined means the sender. */
+  owner?: string;
+  maxPerWallet: bigint;
+  mintPrice: bigint;
+  metadata: { description: string; image: string; baseURI: string };
+  mintWindow: { start: bigint; end: bigint };
+  royaltyBps: bigint;
+};
+
+export type ReportRow = {
+  row: number;
+  name: string;
+  status: "submitted" | "created" | "failed";
+  collectionId?: string;
+  txHash?: string;
+  error?: string;
+};
+
+/** Outcome of every manifest row, rewritten after each step so a rerun can pick up where the last one stopped. */
+export type CreationReport = {
+  manifest: string;
+  chainId: number;
+  contract: string;
+  rows: ReportRow[];
+};
+
+/** Splits CSV text into records, honouring quoted fields with embedded commas, quotes and newlines. */
+export function parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter((fields) => fields.some((value) => value.trim() !== ""));
+}
+
+/** Reads a `.json` (array of rows, or `{ collections: [...] }`) or `.csv` (header row of column names) manifest. */
+export function readManifest(file: string): unknown[] {
+  const content = readFileSync(file, "utf8");
+  if (path.extname(file).toLowerCase() === ".csv") {
+    const [header, ...records] = parseCsv(content);
+    if (!header) {
+      return [];
+    }
+    const columns = header.map((column) => column.trim());
+    return records.map((fields) => Object.fromEntries(columns.map((column, index) => [column, fields[index]])));
+  }
+
+  const parsed = JSON.parse(content) as unknown;
+  const rows = Array.isArray(parsed) ? parsed : (parsed as { collections?: unknown })?.collections;
+  if (!Array.isArray(rows)) {
+    throw new Error(`${file} must hold an array of collections or an object with a "collections" array`);
+  }
+  return rows;
+}
+
+function text(value: unknown): string {
+  return value === undefined || value === null ? "" : String(value).trim();
+}
+
+/**
+ * Checks every row and reports all problems at once, so a manifest is fixed in one pass instead of failing halfway
+ * through a season. Empty optional cells take the same defaults as `task:create-collection`.
+ */
+export function validateManifest(rawRows: unknown[]): { rows: ManifestRow[]; errors: string[] } {
+  const rows: ManifestRow[] = [];
+  const errors: string[] = [];
+  if (!rawRows.length) {
+    errors.push("The manifest has no collections");
+  }
+
+  rawRows.forEach((entry, index) => {
+    const row = index + 1;
+    const rowErrors: string[] = [];
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      errors.push(`Row ${row}: expected an object`);
+      return;
+    }
+    const raw = entry as RawRow;
+
+    const unknown = Object.keys(raw).filter((key) => !(COLUMNS as readonly string[]).includes(key));
+    if (unknown.length) {
+      rowErrors.push(`unknown column(s) ${unknown.join(", ")}`);
+    }
+
+    const integer = (column: (typeof COLUMNS)[number], fallback: bigint) => {
+      const value = text(raw[column]);
+      if (!value) {
+        return fallback;
+      }
+      if (!/^\d+$/.test(value)) {
+        rowErrors.push(`${column} must be a non-negative integer, got "${value}"`);
+        return fallback;
+      }
+      return BigInt(value);
+    };
+
+    const name = text(raw.name);
+    if (!name) {
+      rowErrors.push("name is required");
+    }
+    const maxSupply = integer("supply", 0n);
+    if (maxSupply === 0n && !rowErrors.some((error) => error.startsWith("supply"))) {
+      rowErrors.push("supply must be greater than zero");
+    }
+
+    const owner = text(raw.owner);
+    if (owner && !isAddress(owner)) {
+      rowErrors.push(`owner "${owner}" is not an address`);
+    }
+
+    let mintPrice = 0n;
+    const price = text(raw.price);
+    if (price) {
+      try {
+        mintPrice = parseEther(price);
+      } catch {
+        rowErrors.push(`price must be an ETH amount, got "${price}"`);
+      }
+    }
+
+    const mintWindow = { start: integer("mintStart", 0n), end: integer("mintEnd", 0n) };
+    if (mintWindow.end !== 0n && mintWindow.end <= mintWindow.start) {
+      rowErrors.push("mintEnd must be after mintStart");
+    }
+    const royaltyBps = integer("royaltyBps", 0n);
+    if (royaltyBps > MAX_ROYALTY_BPS) {
+      rowErrors.push(`royaltyBps must be at most ${MAX_ROYALTY_BPS}`);
+    }
+    const maxPerWallet = integer("maxPerWallet", 0n);
+
+    if (rowErrors.length) {
+      errors.push(...rowErrors.map((error) => `Row ${row}${name ? ` (${name})` : ""}: ${error}`));
+      return;
+    }
+    rows.push({
+      row,
+      name,
+      maxSupply,
+      owner: owner ? getAddress(owner) : undefined,
+      maxPerWallet,
+      mintPrice,
+      metadata: { description: text(raw.description), image: text(raw.image), baseURI: text(raw.baseUri) },
+      mintWindow,
+      royaltyBps,
+    });
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Loads the report of an earlier run against the same manifest, chain and contract. Rows are matched by position, so
+ * a report whose names no longer line up with the manifest is refused instead of skipping the wrong drops.
+ */
+export function loadReport(file: string, expected: Omit<CreationReport, "rows">, rows: ManifestRow[]): CreationReport {
+  if (!existsSync(file)) {
+    return { ...expected, rows: [] };
+  }
+
+  const report = JSON.parse(readFileSync(file, "utf8")) as CreationReport;
+  if (report.chainId !== expected.chainId || report.contract.toLowerCase() !== expected.contract.toLowerCase()) {
+    throw new Error(
+      `${file} belongs to ${report.contract} on chain ${report.chainId}; pass --out to start a separate report`,
+    );
+  }
+  for (const entry of report.rows) {
+    const row = rows[entry.row - 1];
+    if (!row || row.name !== entry.name) {
+      throw new Error(`Row ${entry.row} of the manifest changed since ${file} was written; move the report aside`);
+    }
+  }
+  return report;
+}
+
+/** Writes through a temporary file, so an interrupted run never leaves a truncated report behind. */
+export function saveReport(file: string, report: CreationReport) {
+  const temporary = `${file}.tmp`;
+  writeFileSync(temporary, `${JSON.stringify(report, null, 2)}\n`);
+  renameSync(temporary, file);
+}
+
+function upsertRow(report: CreationReport, entry: ReportRow) {
+  report.rows = [...report.rows.filter((item) => item.row !== entry.row), entry].sort((a, b) => a.row - b.row);
+}
+
+task("task:create-collections", "Create every collection of a JSON or CSV manifest, resuming after a failure")
+  .addParam("file", "Manifest of collections (.json or .csv)")
+  .addOptionalParam("out", "Results report (defaults to <file>.results.json next to the manifest)")
+  .addFlag("dryRun", "Only validate the manifest")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    const manifestFile = path.resolve(taskArguments.file as string);
+    const { rows, errors } = validateManifest(readManifest(manifestFile));
+    if (errors.length) {
+      throw new Error(`Invalid manifest ${manifestFile}:\n  ${errors.join("\n  ")}`);
+    }
+    console.log(`Manifest is valid: ${rows.length} collection(s)`);
+    if (taskArguments.dryRun) {
+      return;
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const novaMint = await deployments.get(CONTRACT_NAME);
+    const contract = await ethers.getContractAt(CONTRACT_NAME, novaMint.address);
+    const [creator] = await ethers.getSigners();
+    const { chainId } = await ethers.provider.getNetwork();
+
+    const reportFile = path.resolve(
+      (taskArguments.out as string | undefined) ??
+        path.join(path.dirname(manifestFile), `${path.parse(manifestFile).name}.results.json`),
+    );
+    const report = loadReport(
+      reportFile,
+      { manifest: path.basename(manifestFile), chainId: Number(chainId), contract: novaMint.address },
+      rows,
+    );
+
+    const collectionIdOf = (receipt: {
+      logs: readonly { address: string; topics: readonly string[]; data: string }[];
+    }) => {
+      for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== novaMint.address.toLowerCase()) {
+          continue;
+        }
+        const parsed = contract.interface.parseLog(log);
+        if (parsed?.name === "CollectionCreated") {
+          return (parsed.args.id as bigint).toString();
+        }
+      }
+      throw new Error("CollectionCreated event not found in the receipt");
+    };
+
+    for (const row of rows) {
+      const previous = report.rows.find((entry) => entry.row === row.row);
+      if (previous?.status === "created") {
+        console.log(`Row ${row.row} "${row.name}": already collection ${previous.collectionId}, skipping`);
+        continue;
+      }
+
+      // An earlier attempt can land even when the run that sent it saw an error, such as a timeout or a dropped
+      // connection while waiting, so its transaction is only resent once it is known to have reverted or been dropped.
+      if (previous?.txHash) {
+        let receipt = await ethers.provider.getTransactionReceipt(previous.txHash);
+        if (!receipt && (await ethers.provider.getTransaction(previous.txHash))) {
+          console.log(`Row ${row.row} "${row.name}": waiting for earlier tx ${previous.txHash}...`);
+          receipt = await ethers.provider.waitForTransaction(previous.txHash);
+        }
+        if (receipt?.status === 1) {
+          const collectionId = collectionIdOf(receipt);
+          upsertRow(report, { row: row.row, name: row.name, status: "created", collectionId, txHash: previous.txHash });
+          saveReport(reportFile, report);
+          console.log(`Row ${row.row} "${row.name}": earlier tx created collection ${collectionId}`);
+          continue;
+        }
+        console.log(
+          `Row ${row.row} "${row.name}": earlier tx ${previous.txHash} ${receipt ? "reverted" : "was dropped"}, resending`,
+        );
+      }
+
+      let txHash: string | undefined;
+      try {
+        const encryptedOwner = await fhevm
+          .createEncryptedInput(novaMint.address, creator.address)
+          .addAddress(row.owner ?? creator.address)
+          .encrypt();
+        const tx = await contract
+          .connect(creator)
+          .createCollection(
+            row.name,
+            row.metadata,
+            row.maxSupply,
+            row.maxPerWallet,
+            row.mintPrice,
+            row.mintWindow,
+            row.royaltyBps,
+            encryptedOwner.handles[0],
+            encryptedOwner.inputProof,
+          );
+        txHash = tx.hash;
+        upsertRow(report, { row: row.row, name: row.name, status: "submitted", txHash });
+        saveReport(reportFile, report);
+
+        console.log(`Row ${row.row} "${row.name}": tx ${tx.hash}...`);
+        const receipt = await tx.wait();
+        if (!receipt || receipt.status !== 1) {
+          throw new Error("Transaction reverted");
+        }
+        const collectionId = collectionIdOf(receipt);
+        upsertRow(report, { row: row.row, name: row.name, status: "created", collectionId, txHash });
+        saveReport(reportFile, report);
+        console.log(`Row ${row.row} "${row.name}": created collection ${collectionId}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        upsertRow(report, { row: row.row, name: row.name, status: "failed", txHash, error: message });
+        saveReport(reportFile, report);
+        throw new Error(
+          `Row ${row.row} "${row.name}" failed: ${message}\nFix the cause and rerun the same command to resume; ` +
+            `progress is in ${reportFile}`,
+        );
+      }
+    }
+
+    console.log(`All ${rows.length} collection(s) are created; report written to ${reportFile}`);
+  });
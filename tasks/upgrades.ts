@@ -0,0 +1,176 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import type { DeploymentsExtension } from "hardhat-deploy/types";
+import { task } from "hardhat/config";
+import type { Artifacts, TaskArguments } from "hardhat/types";
+import path from "path";
+
+const CONTRACT_NAME = "NovaMint";
+
+/** Committed storage layout of NovaMint; every upgrade must be append-only with respect to it. */
+export const STORAGE_LAYOUT_PATH = path.resolve(__dirname, "../contracts/NovaMint.storage.json");
+
+/** hardhat-deploy proxy options shared by the deploy script and `task:upgrade`. */
+export const NOVAMINT_PROXY = {
+  proxyContract: "OpenZeppelinTransparentProxy",
+  execute: {
+    init: { methodName: "initialize", args: [] },
+  },
+};
+
+/**
+ * Deploys the external libraries NovaMint links against, reusing unchanged ones, and returns them in the shape of
+ * the `libraries` deploy option.
+ */
+export async function deployNovaMintLibraries(deployments: DeploymentsExtension, from: string) {
+  const royaltyReceiverDeployer = await deployments.deploy("RoyaltyReceiverDeployer", { from, log: true });
+  const tokenUtils = await deployments.deploy("TokenUtils", { from, log: true });
+  return { RoyaltyReceiverDeployer: royaltyReceiverDeployer.address, TokenUtils: tokenUtils.address };
+}
+
+export type StorageEntry = { label: string; slot: number; offset: number; type: string };
+
+/** Compiler storage layout with AST ids stripped, so it only changes when storage actually moves. */
+export type StorageLayout = { storage: StorageEntry[]; structs: Record<string, StorageEntry[]> };
+
+type SolcStorageEntry = { label: string; slot: string; offset: number; type: string };
+type SolcStorageLayout = {
+  storage: SolcStorageEntry[];
+  types: Record<string, { label: string; members?: SolcStorageEntry[] }> | null;
+};
+
+export function normalizeStorageLayout(layout: SolcStorageLayout): StorageLayout {
+  const types = layout.types ?? {};
+  const toEntry = (entry: SolcStorageEntry): StorageEntry => ({
+    label: entry.label,
+    slot: Number(entry.slot),
+    offset: entry.offset,
+    type: types[entry.type]?.label ?? entry.type,
+  });
+
+  const structs: Record<string, StorageEntry[]> = {};
+  for (const type of Object.values(types)) {
+    if (type.members) {
+      structs[type.label] = type.members.map(toEntry);
+    }
+  }
+  return { storage: layout.storage.map(toEntry), structs };
+}
+
+function formatEntry(entry: StorageEntry) {
+  return `${entry.label} (${entry.type}) at slot ${entry.slot}, offset ${entry.offset}`;
+}
+
+function compareEntries(scope: string, previous: StorageEntry[], current: StorageEntry[]): string[] {
+  const errors: string[] = [];
+  previous.forEach((entry, index) => {
+    const next = current[index];
+    if (!next) {
+      errors.push(`${scope}: ${formatEntry(entry)} was removed`);
+    } else if (
+      next.label !== entry.label ||
+      next.type !== entry.type ||
+      next.slot !== entry.slot ||
+      next.offset !== entry.offset
+    ) {
+      errors.push(`${scope}: ${formatEntry(entry)} became ${formatEntry(next)}`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Lists every change that would corrupt existing proxy storage. Variables and struct members may only be
+ * appended; anything removed, reordered, retyped or renamed is reported.
+ */
+export function compareStorageLayouts(previous: StorageLayout, current: StorageLayout): string[] {
+  const errors = compareEntries("storage", previous.storage, current.storage);
+  for (const [name, members] of Object.entries(previous.structs)) {
+    if (current.structs[name]) {
+      errors.push(...compareEntries(name, members, current.structs[name]));
+    } else {
+      errors.push(`${name} was removed or renamed`);
+    }
+  }
+  return errors;
+}
+
+/** Reads the storage layout of a compiled contract from its build info. */
+export async function readStorageLayout(artifacts: Artifacts, contractName: string): Promise<StorageLayout> {
+  const artifact = await artifacts.readArtifact(contractName);
+  const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+  const layout = (
+    buildInfo?.output.contracts[artifact.sourceName]?.[artifact.contractName] as
+      { storageLayout?: SolcStorageLayout } | undefined
+  )?.storageLayout;
+  if (!layout) {
+    throw new Error(`No storage layout was compiled for ${contractName}`);
+  }
+  return normalizeStorageLayout(layout);
+}
+
+export function readLayoutSnapshot(): StorageLayout {
+  return JSON.parse(readFileSync(STORAGE_LAYOUT_PATH, "utf8")) as StorageLayout;
+}
+
+function assertCompatible(previous: StorageLayout, current: StorageLayout, against: string) {
+  const errors = compareStorageLayouts(previous, current);
+  if (errors.length) {
+    throw new Error(`Storage layout is not upgrade-safe against ${against}:\n  ${errors.join("\n  ")}`);
+  }
+}
+
+task("task:storage-layout", "Check the NovaMint storage layout against the committed snapshot")
+  .addFlag("update", "Write the current layout to the snapshot once it is append-only compatible")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await hre.run("compile", { quiet: true });
+    const current = await readStorageLayout(hre.artifacts, CONTRACT_NAME);
+
+    if (existsSync(STORAGE_LAYOUT_PATH)) {
+      assertCompatible(readLayoutSnapshot(), current, path.basename(STORAGE_LAYOUT_PATH));
+    }
+    if (taskArguments.update) {
+      writeFileSync(STORAGE_LAYOUT_PATH, `${JSON.stringify(current, null, 2)}\n`);
+      console.log(`Wrote ${current.storage.length} storage variables to ${STORAGE_LAYOUT_PATH}`);
+    } else {
+      console.log("Storage layout is compatible with the snapshot");
+    }
+  });
+
+task("task:upgrade", "Upgrade the NovaMint proxy to a new implementation after checking its storage layout")
+  .addOptionalParam("contract", "Implementation contract to upgrade to", CONTRACT_NAME)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { deployments, getNamedAccounts } = hre;
+    const contractName = taskArguments.contract as string;
+
+    await hre.run("compile", { quiet: true });
+    const current = await readStorageLayout(hre.artifacts, contractName);
+
+    // The layout recorded with the live implementation is authoritative; fall back to the snapshot without one.
+    const implementation = await deployments.getOrNull(`${CONTRACT_NAME}_Implementation`);
+    if (!implementation) {
+      throw new Error(`No proxied ${CONTRACT_NAME} deployment on ${hre.network.name}; run the deploy script first`);
+    }
+    const deployedLayout = implementation.storageLayout as SolcStorageLayout | undefined;
+    assertCompatible(
+      deployedLayout ? normalizeStorageLayout(deployedLayout) : readLayoutSnapshot(),
+      current,
+      `the implementation at ${implementation.address}`,
+    );
+
+    const { deployer } = await getNamedAccounts();
+    const result = await deployments.deploy(CONTRACT_NAME, {
+      contract: contractName,
+      from: deployer,
+      log: true,
+      libraries: await deployNovaMintLibraries(deployments, deployer),
+      proxy: NOVAMINT_PROXY,
+    });
+
+    const upgraded = await deployments.get(`${CONTRACT_NAME}_Implementation`);
+    if (upgraded.address === implementation.address) {
+      console.log(`Implementation unchanged at ${implementation.address}`);
+    } else {
+      console.log(`Upgraded proxy ${result.address}: ${implementation.address} -> ${upgraded.address}`);
+    }
+    await hre.run("task:app-config");
+  });
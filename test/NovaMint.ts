@@ -1,8 +1,59 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { expect } from "chai";
-import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { artifacts, deployments, ethers, fhevm, run } from "hardhat";
+import { tmpdir } from "os";
+import path from "path";
 
-import { NovaMint, NovaMint__factory } from "../types";
+import type { CollectionRecord, HolderRecord } from "../tasks/inspect";
+import { type CreationReport, validateManifest } from "../tasks/manifest";
+
+import {
+  compareStorageLayouts,
+  deployNovaMintLibraries,
+  NOVAMINT_PROXY,
+  readLayoutSnapshot,
+  readStorageLayout,
+} from "../tasks/upgrades";
+import { ERC721ReceiverMock__factory, NovaMint, NovaMint__factory, NovaMintV2Mock__factory } from "../types";
+
+enum ReceiverBehaviour {
+  Accept,
+  WrongSelector,
+  RevertWithMessage,
+  RevertEmpty,
+}
+
+const EMPTY_METADATA = { description: "", image: "", baseURI: "" };
+const OPEN_WINDOW = { start: 0, end: 0 };
+
+/** Mutes the progress and tables the tasks print while the tests of the enclosing `describe` run them. */
+function silenceTaskOutput() {
+  const { log, table } = console;
+  beforeEach(function () {
+    console.log = () => {};
+    console.table = () => {};
+  });
+  afterEach(function () {
+    console.log = log;
+    console.table = table;
+  });
+}
+
+enum OwnerActionKind {
+  RotateHiddenOwner,
+  Withdraw,
+  SetMintPrice,
+  SetAllowlistEnabled,
+}
+
+enum OwnerActionStatus {
+  None,
+  Pending,
+  Executed,
+  Rejected,
+}
 
 type Signers = {
   owner: HardhatEthersSigner;
@@ -11,9 +62,11 @@ type Signers = {
 };
 
 async function deployFixture() {
-  const factory = (await ethers.getContractFactory("NovaMint")) as NovaMint__factory;
-  const contract = (await factory.deploy()) as NovaMint;
-  const contractAddress = await contract.getAddress();
+  // A fresh deployment instead of `deployments.fixture`: reverting to a snapshot rewinds the chain under the
+  // FHEVM mock coprocessor.
+  await deployments.run(["NovaMint"], { resetMemory: true, writeDeploymentsToFiles: false });
+  const contractAddress = (await deployments.get("NovaMint")).address;
+  const contract = await ethers.getContractAt("NovaMint", contractAddress);
 
   return { contract, contractAddress };
 }
@@ -46,7 +99,17 @@ describe("NovaMint", function () {
 
     const tx = await contract
       .connect(signers.owner)
-      .createCollection("Genesis", 2, encryptedOwner.handles[0], encryptedOwner.inputProof);
+      .createCollection(
+        "Genesis",
+        EMPTY_METADATA,
+        2,
+        0,
+        0,
+        OPEN_WINDOW,
+        0,
+        encryptedOwner.handles[0],
+        encryptedOwner.inputProof,
+      );
     await tx.wait();
 
     const summary = await contract.getCollection(1);
@@ -60,15 +123,65 @@ describe("NovaMint", function () {
     const decrypted = await fhevm.userDecryptEaddress(hiddenOwner, contractAddress, signers.owner);
     expect(decrypted).to.eq(signers.owner.address);
 
-    const all = await contract.getAllCollections();
-    expect(all.length).to.eq(1);
+    const page = await contract.getCollections(0, 10);
+    expect(page.length).to.eq(1);
+  });
+
+  it("pages through collections and filters them by creator", async function () {
+    const creators = [signers.owner, signers.alice, signers.owner, signers.owner, signers.alice];
+    for (const [index, creator] of creators.entries()) {
+      const encryptedOwner = await encryptOwner(creator.address, creator);
+      await contract
+        .connect(creator)
+        .createCollection(
+          `Drop ${index + 1}`,
+          EMPTY_METADATA,
+          1,
+          0,
+          0,
+          OPEN_WINDOW,
+          0,
+          encryptedOwner.handles[0],
+          encryptedOwner.inputProof,
+        );
+    }
+
+    const firstPage = await contract.getCollections(0, 2);
+    expect(firstPage.map((collection) => collection.id)).to.deep.eq([1n, 2n]);
+    const lastPage = await contract.getCollections(4, 2);
+    expect(lastPage.map((collection) => collection.name)).to.deep.eq(["Drop 5"]);
+    expect(await contract.getCollections(5, 2)).to.deep.eq([]);
+
+    expect(await contract.totalCollectionsByCreator(signers.owner.address)).to.eq(3n);
+    const ownerPage = await contract.getCollectionsByCreator(signers.owner.address, 1, 5);
+    expect(ownerPage.map((collection) => collection.id)).to.deep.eq([3n, 4n]);
+
+    await contract.connect(signers.owner).transferCreator(1, signers.bob.address);
+    await contract.connect(signers.bob).acceptCreator(1);
+    await contract.connect(signers.alice).renounceCreator(2);
+
+    const bobPage = await contract.getCollectionsByCreator(signers.bob.address, 0, 5);
+    expect(bobPage.map((collection) => collection.id)).to.deep.eq([1n]);
+    expect(await contract.totalCollectionsByCreator(signers.owner.address)).to.eq(2n);
+    const alicePage = await contract.getCollectionsByCreator(signers.alice.address, 0, 5);
+    expect(alicePage.map((collection) => collection.id)).to.deep.eq([5n]);
   });
 
   it("mints tokens up to supply and prevents further minting", async function () {
     const encryptedOwner = await encryptOwner(signers.alice.address, signers.alice);
     await contract
       .connect(signers.alice)
-      .createCollection("Limited", 2, encryptedOwner.handles[0], encryptedOwner.inputProof);
+      .createCollection(
+        "Limited",
+        EMPTY_METADATA,
+        2,
+        0,
+        0,
+        OPEN_WINDOW,
+        0,
+        encryptedOwner.handles[0],
+        encryptedOwner.inputProof,
+      );
 
     const firstToken = await contract.connect(signers.owner).mint(1);
     await firstToken.wait();
@@ -90,7 +203,17 @@ describe("NovaMint", function () {
     const encryptedOwner = await encryptOwner(signers.owner.address, signers.owner);
     await contract
       .connect(signers.owner)
-      .createCollection("Transferable", 1, encryptedOwner.handles[0], encryptedOwner.inputProof);
+      .createCollection(
+        "Transferable",
+        EMPTY_METADATA,
+        1,
+        0,
+        0,
+        OPEN_WINDOW,
+        0,
+        encryptedOwner.handles[0],
+        encryptedOwner.inputProof,
+      );
 
     const newEncryptedOwner = await encryptOwner(signers.bob.address, signers.owner);
     await expect(
@@ -106,4 +229,1543 @@ describe("NovaMint", function () {
     const decrypted = await fhevm.userDecryptEaddress(hiddenOwner, contractAddress, signers.owner);
     expect(decrypted).to.eq(signers.bob.address);
   });
+
+  it("records every hidden owner with its timestamp and keeps past handles decryptable", async function () {
+    const encryptedOwner = await encryptOwner(signers.owner.address, signers.owner);
+    await (
+      await contract
+        .connect(signers.owner)
+        .createCollection(
+          "Audited",
+          EMPTY_METADATA,
+          1,
+          0,
+          0,
+          OPEN_WINDOW,
+          0,
+          encryptedOwner.handles[0],
+          encryptedOwner.inputProof,
+        )
+    ).wait();
+
+    for (const owner of [signers.alice, signers.bob]) {
+      const rotated = await encryptOwner(owner.address, signers.owner);
+      await (await contract.connect(signers.owner).setHiddenOwner(1, rotated.handles[0], rotated.inputProof)).wait();
+    }
+    // Re-encrypting for an ACL change keeps the same owner, so it is not a new history entry.
+    await (await contract.connect(signers.owner).grantViewer(1, signers.alice.address)).wait();
+    await (await contract.connect(signers.owner).revokeViewer(1, signers.alice.address)).wait();
+
+    expect(await contract.totalHiddenOwnerHistory(1)).to.eq(3);
+    const history = await contract.getHiddenOwnerHistory(1, 0, 10);
+    expect(history.length).to.eq(3);
+    expect(history[0].timestamp).to.be.lte(history[1].timestamp);
+    expect(history[1].timestamp).to.be.lte(history[2].timestamp);
+
+    const decrypted = [];
+    for (const record of history) {
+      decrypted.push(await fhevm.userDecryptEaddress(record.hiddenOwner, contractAddress, signers.owner));
+    }
+    expect(decrypted).to.deep.eq([signers.owner.address, signers.alice.address, signers.bob.address]);
+
+    // A new creator inherits the whole history, not just the current owner, once it asks for it page by page.
+    await expect(fhevm.userDecryptEaddress(history[0].hiddenOwner, contractAddress, signers.alice)).to.be.rejected;
+    await (await contract.connect(signers.owner).transferCreator(1, signers.alice.address)).wait();
+    await (await contract.connect(signers.alice).acceptCreator(1)).wait();
+    await expect(fhevm.userDecryptEaddress(history[0].hiddenOwner, contractAddress, signers.alice)).to.be.rejected;
+    await expect(contract.connect(signers.owner).grantHiddenOwnerHistory(1, 0, 10)).to.be.revertedWithCustomError(
+      contract,
+      "NotCollectionOwner",
+    );
+    await (await contract.connect(signers.alice).grantHiddenOwnerHistory(1, 0, 2)).wait();
+    await (await contract.connect(signers.alice).grantHiddenOwnerHistory(1, 2, 2)).wait();
+    for (const [index, record] of history.entries()) {
+      expect(await fhevm.userDecryptEaddress(record.hiddenOwner, contractAddress, signers.alice)).to.eq(
+        decrypted[index],
+      );
+    }
+
+    const page = await contract.getHiddenOwnerHistory(1, 1, 1);
+    expect(page.length).to.eq(1);
+    expect(page[0].hiddenOwner).to.eq(history[1].hiddenOwner);
+    expect(await contract.getHiddenOwnerHistory(1, 3, 10)).to.have.length(0);
+  });
+
+  it("hands over the creator role without granting a long owner history up front", async function () {
+    const acceptGas = async (collectionId: number) => {
+      await (await contract.connect(signers.owner).transferCreator(collectionId, signers.alice.address)).wait();
+      return (await (await contract.connect(signers.alice).acceptCreator(collectionId)).wait())!.gasUsed;
+    };
+    for (const name of ["Short history", "Long history"]) {
+      const encryptedOwner = await encryptOwner(signers.owner.address, signers.owner);
+      await (
+        await contract
+          .connect(signers.owner)
+          .createCollection(
+            name,
+            EMPTY_METADATA,
+            1,
+            0,
+            0,
+            OPEN_WINDOW,
+            0,
+            encryptedOwner.handles[0],
+            encryptedOwner.inputProof,
+          )
+      ).wait();
+    }
+    for (let i = 0; i < 40; i++) {
+      const rotated = await encryptOwner(signers.bob.address, signers.owner);
+      await (await contract.connect(signers.owner).setHiddenOwner(2, rotated.handles[0], rotated.inputProof)).wait();
+    }
+    expect(await contract.totalHiddenOwnerHistory(2)).to.eq(41);
+
+    // The hand-over no longer grants past handles, so it stays in the range of a fresh collection's.
+    const shortGas = await acceptGas(1);
+    expect(await acceptGas(2)).to.be.lt(shortGas + 100_000n);
+
+    const history = await contract.getHiddenOwnerHistory(2, 0, 41);
+    for (let offset = 0; offset < history.length; offset += 20) {
+      await (await contract.connect(signers.alice).grantHiddenOwnerHistory(2, offset, 20)).wait();
+    }
+    expect(await fhevm.userDecryptEaddress(history[0].hiddenOwner, contractAddress, signers.alice)).to.eq(
+      signers.owner.address,
+    );
+    expect(await fhevm.userDecryptEaddress(history[40].hiddenOwner, contractAddress, signers.alice)).to.eq(
+      signers.bob.address,
+    );
+  });
+
+  it("reveals the hidden owner on-chain through public decryption", async function () {
+    const encryptedOwner = await encryptOwner(signers.bob.address, signers.owner);
+    await contract
+      .connect(signers.owner)
+      .createCollection(
+        "Revealed",
+        EMPTY_METADATA,
+        1,
+        0,
+        0,
+        OPEN_WINDOW,
+        0,
+        encryptedOwner.handles[0],
+        encryptedOwner.inputProof,
+      );
+
+    await expect(contract.connect(signers.bob).requestReveal(1)).to.be.revertedWithCustomError(
+      contract,
+      "NotCollectionOwner",
+    );
+    await expect(contract.finalizeReveal(1, "0x", "0x")).to.be.revertedWithCustomError(contract, "RevealNotRequested");
+
+    const hiddenOwner = await contract.hiddenOwner(1);
+    await expect(contract.connect(signers.owner).requestReveal(1))
+      .to.emit(contract, "HiddenOwnerRevealRequested")
+      .withArgs(1, hiddenOwner);
+    expect((await contract.getCollection(1)).revealPending).to.eq(true);
+
+    const decryption = await fhevm.publicDecrypt([hiddenOwner]);
+    await expect(
+      contract.connect(signers.alice).finalizeReveal(1, decryption.abiEncodedClearValues, decryption.decryptionProof),
+    )
+      .to.emit(contract, "HiddenOwnerRevealed")
+      .withArgs(1, signers.bob.address);
+
+    const revealed = await contract.getCollection(1);
+    expect(revealed.revealedOwner).to.eq(signers.bob.address);
+    expect(revealed.revealPending).to.eq(false);
+
+    const rotatedOwner = await encryptOwner(signers.alice.address, signers.owner);
+    await contract.connect(signers.owner).setHiddenOwner(1, rotatedOwner.handles[0], rotatedOwner.inputProof);
+    expect((await contract.getCollection(1)).revealedOwner).to.eq(ethers.ZeroAddress);
+  });
+
+  it("stores collection metadata and resolves tokenURI through the token's collection", async function () {
+    const encryptedOwner = await encryptOwner(signers.owner.address, signers.owner);
+    const metadata = {
+      description: "Nebula studies",
+      image: "ipfs://nebula/cover.png",
+      baseURI: "ipfs://nebula/",
+    };
+    await contract
+      .connect(signers.owner)
+      .createCollection(
+        "Nebula",
+        metadata,
+        2,
+        0,
+        0,
+        OPEN_WINDOW,
+        0,
+        encryptedOwner.handles[0],
+        encryptedOwner.inputProof,
+      );
+    await contract
+      .connect(signers.owner)
+      .createCollection(
+        "Plain",
+        EMPTY_METADATA,
+        1,
+        0,
+        0,
+        OPEN_WINDOW,
+        0,
+        encryptedOwner.handles[0],
+        encryptedOwner.inputProof,
+      );
+
+    const summary = await contract.getCollection(1);
+    expect(summary.description).to.eq(metadata.description);
+    expect(summary.image).to.eq(metadata.image);
+    expect(summary.baseURI).to.eq(metadata.baseURI);
+
+    await contract.connect(signers.alice).mint(1);
+    await contract.connect(signers.alice).mint(2);
+    await expect(contract.tokenURI(summary.baseTokenId + 1n)).to.be.revertedWithCustomError(contract, "InvalidToken");
+
+    expect(await contract.tokenURI(summary.baseTokenId)).to.eq(`ipfs://nebula/${summary.baseTokenId}`);
+    const plainToken = (await contract.getCollection(2)).baseTokenId;
+    expect(await contract.tokenURI(plainToken)).to.eq("");
+    expect(await contract.supportsInterface("0x5b5e139f")).to.eq(true);
+  });
+
+  it("allows only the creator to update collection metadata", async function () {
+    const encryptedOwner = await encryptOwner(signers.owner.address, signers.owner);
+    await contract
+      .connect(signers.owner)
+      .createCollection(
+        "Evolving",
+        EMPTY_METADATA,
+        12,
+        0,
+        0,
+        OPEN_WINDOW,
+        0,
+        encryptedOwner.handles[0],
+        encryptedOwner.inputProof,
+      );
+    const metadata = {
+      description: "Season two",
+      image: "https://cdn.example/cover.png",
+      baseURI: "https://api.example/",
+    };
+
+    await expect(contract.connect(signers.bob).setCollectionMetadata(1, metadata)).to.be.revertedWithCustomError(
+      contract,
+      "NotCollectionOwner",
+    );
+    await expect(contract.connect(signers.owner).setCollectionMetadata(1, metadata))
+      .to.emit(contract, "CollectionMetadataUpdated")
+      .withArgs(1, metadata.description, metadata.image, metadata.baseURI);
+
+    for (let i = 0; i < 10; i++) {
+      await contract.connect(signers.bob).mint(1);
+    }
+    expect(await contract.tokenURI(1)).to.eq("https://api.example/1");
+    expect(await contract.tokenURI(10)).to.eq("https://api.example/10");
+  });
+
+  it("batch-mints a contiguous token range from the reserved block", async function () {
+    const encryptedOwner = await encryptOwner(signers.owner.address, signers.owner);
+    await contract
+      .connect(signers.owner)
+      .createCollection(
+        "First",
+        EMPTY_METADATA,
+        2,
+        0,
+        0,
+        OPEN_WINDOW,
+        0,
+        encryptedOwner.handles[0],
+        encryptedOwner.inputProof,
+      );
+    await contract
+      .connect(signers.owner)
+      .createCollection(
+        "Batch",
+        EMPTY_METADATA,
+        5,
+        0,
+        0,
+        OPEN_WINDOW,
+        0,
+        encryptedOwner.handles[0],
+        encryptedOwner.inputProof,
+      );
+    const { baseTokenId } = await contract.getCollection(2);
+
+    const firstTokenId = await contract.connect(signers.alice).mintBatch.staticCall(2, 3);
+    expect(firstTokenId).to.eq(baseTokenId);
+
+    const tx = contract.connect(signers.alice).mintBatch(2, 3);
+    await expect(tx).to.emit(contract, "Minted").withArgs(2, baseTokenId, signers.alice.address);
+    await expect(tx)
+      .to.emit(contract, "Transfer")
+      .withArgs(ethers.ZeroAddress, signers.alice.address, baseTokenId + 2n);
+
+    for (let offset = 0n; offset < 3n; offset++) {
+      expect(await contract.ownerOf(baseTokenId + offset)).to.eq(signers.alice.address);
+      expect(await contract.tokenCollection(baseTokenId + offset)).to.eq(2n);
+    }
+    expect(await contract.balanceOf(signers.alice.address)).to.eq(3n);
+    expect(await contract.mintedBy(2, signers.alice.address)).to.eq(3n);
+    expect(await contract.tokenExists(baseTokenId + 3n)).to.eq(false);
+
+    await expect(contract.connect(signers.bob).mintBatch(2, 3)).to.be.revertedWithCustomError(
+      contract,
+      "SupplyExhausted",
+    );
+    await expect(contract.connect(signers.bob).mintBatch(2, 0)).to.be.revertedWithCustomError(
+      contract,
+      "InvalidQuantity",
+    );
+
+    await contract.connect(signers.bob).mintBatch(2, 2);
+    expect((await contract.getCollection(2)).minted).to.eq(5n);
+  });
+
+  it("enforces the per-wallet mint limit across single and batch mints", async function () {
+    const encryptedOwner = await encryptOwner(signers.owner.address, signers.owner);
+    await contract
+      .connect(signers.owner)
+      .createCollection(
+        "Capped",
+        EMPTY_METADATA,
+        10,
+        2,
+        0,
+        OPEN_WINDOW,
+        0,
+        encryptedOwner.handles[0],
+        encryptedOwner.inputProof,
+      );
+    expect((await contract.getCollection(1)).maxPerWallet).to.eq(2n);
+
+    await expect(contract.connect(signers.alice).mintBatch(1, 3)).to.be.revertedWithCustomError(
+      contract,
+      "WalletLimitExceeded",
+    );
+
+    await contract.connect(signers.alice).mint(1);
+    await contract.connect(signers.alice).mint(1);
+    await expect(contract.connect(signers.alice).mint(1)).to.be.revertedWithCustomError(
+      contract,
+      "WalletLimitExceeded",
+    );
+
+    // Transferring tokens away does not reset the mint allowance.
+    await contract.connect(signers.alice).transferFrom(signers.alice.address, signers.bob.address, 1);
+    await expect(contract.connect(signers.alice).mint(1)).to.be.revertedWithCustomError(
+      contract,
+      "WalletLimitExceeded",
+    );
+
+    await contract.connect(signers.bob).mintBatch(1, 2);
+    expect(await contract.mintedBy(1, signers.bob.address)).to.eq(2n);
+    expect(await contract.balanceOf(signers.bob.address)).to.eq(3n);
+  });
+
+  describe("mint windows and pausing", function () {
+    let now: number;
+
+    async function createScheduled(start: number, end: number) {
+      const encryptedOwner = await encryptOwner(signers.owner.address, signers.owner);
+      return contract
+        .connect(signers.owner)
+        .createCollection(
+          "Timed",
+          EMPTY_METADATA,
+          5,
+          0,
+          0,
+          { start, end },
+          0,
+          encryptedOwner.handles[0],
+          encryptedOwner.inputProof,
+        );
+    }
+
+    beforeEach(async function () {
+      now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    });
+
+    it("rejects windows that end before they start", async function () {
+      await expect(createScheduled(now + 100, now + 100)).to.be.revertedWithCustomError(contract, "InvalidMintWindow");
+    });
+
+    it("only mints between the scheduled start and end", async function () {
+      await createScheduled(now + 100, now + 200);
+      const summary = await contract.getCollection(1);
+      expect([summary.mintStart, summary.mintEnd]).to.deep.eq([BigInt(now + 100), BigInt(now + 200)]);
+
+      await expect(contract.connect(signers.alice).mint(1)).to.be.revertedWithCustomError(contract, "MintNotStarted");
+
+      await ethers.provider.send("evm_increaseTime", [100]);
+      await (await contract.connect(signers.alice).mint(1)).wait();
+
+      await ethers.provider.send("evm_increaseTime", [100]);
+      await expect(contract.connect(signers.alice).mintBatch(1, 2)).to.be.revertedWithCustomError(
+        contract,
+        "MintEnded",
+      );
+      expect(await contract.mintedCount(1)).to.eq(1n);
+    });
+
+    it("lets only the creator reschedule minting", async function () {
+      await createScheduled(0, now + 10);
+      await ethers.provider.send("evm_increaseTime", [20]);
+      await expect(contract.connect(signers.alice).mint(1)).to.be.revertedWithCustomError(contract, "MintEnded");
+
+      await expect(
+        contract.connect(signers.alice).setMintWindow(1, { start: 0, end: 0 }),
+      ).to.be.revertedWithCustomError(contract, "NotCollectionOwner");
+      await expect(contract.connect(signers.owner).setMintWindow(1, { start: 0, end: 0 }))
+        .to.emit(contract, "MintWindowUpdated")
+        .withArgs(1, 0, 0);
+
+      await (await contract.connect(signers.alice).mint(1)).wait();
+    });
+
+    it("blocks public and allowlist mints while paused", async function () {
+      await createScheduled(0, 0);
+      await expect(contract.connect(signers.alice).pause(1)).to.be.revertedWithCustomError(
+        contract,
+        "NotCollectionOwner",
+      );
+      await expect(contract.connect(signers.owner).pause(1)).to.emit(contract, "PauseStatusChanged").withArgs(1, true);
+      expect((await contract.getCollection(1)).paused).to.eq(true);
+
+      await expect(contract.connect(signers.alice).mint(1)).to.be.revertedWithCustomError(contract, "MintPaused");
+      await contract.connect(signers.owner).setAllowlistEnabled(1, true);
+      await expect(contract.connect(signers.alice).requestAllowlistMint(1, 1)).to.be.revertedWithCustomError(
+        contract,
+        "MintPaused",
+      );
+
+      await contract.connect(signers.owner).setAllowlistEnabled(1, false);
+      await contract.connect(signers.owner).unpause(1);
+      await (await contract.connect(signers.alice).mint(1)).wait();
+      expect(await contract.balanceOf(signers.alice.address)).to.eq(1n);
+    });
+  });
+
+  describe("encrypted allowlist", function () {
+    beforeEach(async function () {
+      const encryptedOwner = await encryptOwner(signers.owner.address, signers.owner);
+      await contract
+        .connect(signers.owner)
+        .createCollection(
+          "Members",
+          EMPTY_METADATA,
+          5,
+          0,
+          0,
+          OPEN_WINDOW,
+          0,
+          encryptedOwner.handles[0],
+          encryptedOwner.inputProof,
+        );
+
+      const allowances = await fhevm
+        .createEncryptedInput(contractAddress, signers.owner.address)
+        .add32(2)
+        .add32(0)
+        .encrypt();
+      await contract
+        .connect(signers.owner)
+        .setAllowlist(1, [signers.alice.address, signers.bob.address], allowances.handles, allowances.inputProof);
+      await contract.connect(signers.owner).setAllowlistEnabled(1, true);
+    });
+
+    async function requestAndFinalize(minter: HardhatEthersSigner, quantity: number) {
+      const requestId = await contract.connect(minter).requestAllowlistMint.staticCall(1, quantity);
+      await (await contract.connect(minter).requestAllowlistMint(1, quantity)).wait();
+
+      const request = await contract.allowlistRequest(requestId);
+      const decryption = await fhevm.publicDecrypt([request.approved]);
+      await contract.finalizeAllowlistMint(requestId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+      return requestId;
+    }
+
+    it("lets only the creator manage the allowlist", async function () {
+      const allowances = await fhevm.createEncryptedInput(contractAddress, signers.bob.address).add32(5).encrypt();
+      await expect(
+        contract.connect(signers.bob).setAllowlist(1, [signers.bob.address], allowances.handles, allowances.inputProof),
+      ).to.be.revertedWithCustomError(contract, "NotCollectionOwner");
+      await expect(contract.connect(signers.bob).setAllowlistEnabled(1, false)).to.be.revertedWithCustomError(
+        contract,
+        "NotCollectionOwner",
+      );
+
+      const ownerInput = await fhevm.createEncryptedInput(contractAddress, signers.owner.address).add32(1).encrypt();
+      await expect(
+        contract.connect(signers.owner).setAllowlist(1, [], ownerInput.handles, ownerInput.inputProof),
+      ).to.be.revertedWithCustomError(contract, "LengthMismatch");
+    });
+
+    it("keeps allowances encrypted but decryptable by the creator and the listed address", async function () {
+      const aliceAllowance = await contract.allowlistAllowance(1, signers.alice.address);
+
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, aliceAllowance, contractAddress, signers.alice)).to.eq(2n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, aliceAllowance, contractAddress, signers.owner)).to.eq(2n);
+      expect((await contract.getCollection(1)).allowlistEnabled).to.eq(true);
+    });
+
+    it("blocks public minting while the allowlist is enabled", async function () {
+      await expect(contract.connect(signers.alice).mint(1)).to.be.revertedWithCustomError(
+        contract,
+        "AllowlistRequired",
+      );
+
+      await contract.connect(signers.owner).setAllowlistEnabled(1, false);
+      await expect(contract.connect(signers.alice).requestAllowlistMint(1, 1)).to.be.revertedWithCustomError(
+        contract,
+        "AllowlistNotEnabled",
+      );
+      await contract.connect(signers.bob).mint(1);
+      expect(await contract.balanceOf(signers.bob.address)).to.eq(1n);
+    });
+
+    it("mints within the encrypted allowance and decrements it", async function () {
+      const requestId = await requestAndFinalize(signers.alice, 2);
+
+      expect(await contract.balanceOf(signers.alice.address)).to.eq(2n);
+      expect((await contract.allowlistRequest(requestId)).pending).to.eq(false);
+      const remaining = await contract.allowlistAllowance(1, signers.alice.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, remaining, contractAddress, signers.alice)).to.eq(0n);
+
+      await requestAndFinalize(signers.alice, 1);
+      expect(await contract.balanceOf(signers.alice.address)).to.eq(2n);
+      expect(await contract.mintedBy(1, signers.alice.address)).to.eq(2n);
+    });
+
+    it("rejects addresses without enough allowance and releases the reservation", async function () {
+      const requestId = await contract.connect(signers.bob).requestAllowlistMint.staticCall(1, 3);
+      await contract.connect(signers.bob).requestAllowlistMint(1, 3);
+      await expect(contract.connect(signers.owner).requestAllowlistMint(1, 3)).to.be.revertedWithCustomError(
+        contract,
+        "SupplyExhausted",
+      );
+
+      const request = await contract.allowlistRequest(requestId);
+      const decryption = await fhevm.publicDecrypt([request.approved]);
+      await expect(
+        contract.finalizeAllowlistMint(requestId, decryption.abiEncodedClearValues, decryption.decryptionProof),
+      )
+        .to.emit(contract, "AllowlistMintFinalized")
+        .withArgs(requestId, false);
+
+      expect(await contract.balanceOf(signers.bob.address)).to.eq(0n);
+      expect(await contract.mintedBy(1, signers.bob.address)).to.eq(0n);
+      await expect(
+        contract.finalizeAllowlistMint(requestId, decryption.abiEncodedClearValues, decryption.decryptionProof),
+      ).to.be.revertedWithCustomError(contract, "InvalidRequest");
+
+      await requestAndFinalize(signers.owner, 1);
+      expect(await contract.balanceOf(signers.owner.address)).to.eq(0n);
+      expect((await contract.getCollection(1)).minted).to.eq(0n);
+    });
+  });
+
+  describe("creator role transfer", function () {
+    beforeEach(async function () {
+      const encryptedOwner = await encryptOwner(signers.bob.address, signers.owner);
+      await contract
+        .connect(signers.owner)
+        .createCollection(
+          "Handover",
+          EMPTY_METADATA,
+          1,
+          0,
+          0,
+          OPEN_WINDOW,
+          0,
+          encryptedOwner.handles[0],
+          encryptedOwner.inputProof,
+        );
+    });
+
+    it("hands the creator role over in two steps and moves hidden owner access", async function () {
+      await expect(
+        contract.connect(signers.alice).transferCreator(1, signers.alice.address),
+      ).to.be.revertedWithCustomError(contract, "NotCollectionOwner");
+      await expect(contract.connect(signers.owner).transferCreator(1, signers.alice.address))
+        .to.emit(contract, "CreatorTransferStarted")
+        .withArgs(1, signers.owner.address, signers.alice.address);
+
+      const pending = await contract.getCollection(1);
+      expect(pending.creator).to.eq(signers.owner.address);
+      expect(pending.pendingCreator).to.eq(signers.alice.address);
+      await expect(contract.connect(signers.bob).acceptCreator(1)).to.be.revertedWithCustomError(
+        contract,
+        "NotPendingCreator",
+      );
+
+      await expect(contract.connect(signers.alice).acceptCreator(1))
+        .to.emit(contract, "CreatorTransferred")
+        .withArgs(1, signers.owner.address, signers.alice.address);
+
+      const transferred = await contract.getCollection(1);
+      expect(transferred.creator).to.eq(signers.alice.address);
+      expect(transferred.pendingCreator).to.eq(ethers.ZeroAddress);
+      expect(await fhevm.userDecryptEaddress(transferred.hiddenOwner, contractAddress, signers.alice)).to.eq(
+        signers.bob.address,
+      );
+      await expect(fhevm.userDecryptEaddress(transferred.hiddenOwner, contractAddress, signers.owner)).to.be.rejected;
+      await expect(contract.connect(signers.owner).setMintPrice(1, 1)).to.be.revertedWithCustomError(
+        contract,
+        "NotCollectionOwner",
+      );
+    });
+
+    it("cancels a pending transfer with the zero address", async function () {
+      await contract.connect(signers.owner).transferCreator(1, signers.alice.address);
+      await contract.connect(signers.owner).transferCreator(1, ethers.ZeroAddress);
+
+      await expect(contract.connect(signers.alice).acceptCreator(1)).to.be.revertedWithCustomError(
+        contract,
+        "NotPendingCreator",
+      );
+      expect((await contract.getCollection(1)).creator).to.eq(signers.owner.address);
+    });
+
+    it("leaves only the hidden owner in control after renouncing", async function () {
+      await contract.connect(signers.owner).grantViewer(1, signers.alice.address);
+      await expect(contract.connect(signers.owner).renounceCreator(1))
+        .to.emit(contract, "CreatorTransferred")
+        .withArgs(1, signers.owner.address, ethers.ZeroAddress);
+
+      const renounced = await contract.getCollection(1);
+      expect(renounced.creator).to.eq(ethers.ZeroAddress);
+      expect(await fhevm.userDecryptEaddress(renounced.hiddenOwner, contractAddress, signers.alice)).to.eq(
+        signers.bob.address,
+      );
+      await expect(contract.connect(signers.owner).setAllowlistEnabled(1, true)).to.be.revertedWithCustomError(
+        contract,
+        "NotCollectionOwner",
+      );
+
+      const actionId = await contract
+        .connect(signers.bob)
+        .requestOwnerAction.staticCall(1, OwnerActionKind.SetMintPrice, 5);
+      await contract.connect(signers.bob).requestOwnerAction(1, OwnerActionKind.SetMintPrice, 5);
+      const action = await contract.ownerAction(actionId);
+      const decryption = await fhevm.publicDecrypt([action.authorized]);
+      await contract.finalizeOwnerAction(actionId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+      expect((await contract.getCollection(1)).mintPrice).to.eq(5n);
+    });
+  });
+
+  describe("hidden owner viewers", function () {
+    beforeEach(async function () {
+      const encryptedOwner = await encryptOwner(signers.bob.address, signers.owner);
+      await contract
+        .connect(signers.owner)
+        .createCollection(
+          "Audited",
+          EMPTY_METADATA,
+          1,
+          0,
+          0,
+          OPEN_WINDOW,
+          0,
+          encryptedOwner.handles[0],
+          encryptedOwner.inputProof,
+        );
+    });
+
+    it("lets only the creator grant viewers", async function () {
+      await expect(contract.connect(signers.alice).grantViewer(1, signers.alice.address)).to.be.revertedWithCustomError(
+        contract,
+        "NotCollectionOwner",
+      );
+      await expect(contract.connect(signers.owner).grantViewer(1, ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        contract,
+        "ZeroAddress",
+      );
+
+      await expect(contract.connect(signers.owner).grantViewer(1, signers.alice.address))
+        .to.emit(contract, "ViewerGranted")
+        .withArgs(1, signers.alice.address);
+      await expect(contract.connect(signers.owner).grantViewer(1, signers.alice.address)).to.be.revertedWithCustomError(
+        contract,
+        "ViewerAlreadyGranted",
+      );
+
+      expect(await contract.viewers(1)).to.deep.eq([signers.alice.address]);
+      expect(await contract.isViewer(1, signers.alice.address)).to.eq(true);
+      const hiddenOwner = await contract.hiddenOwner(1);
+      expect(await fhevm.userDecryptEaddress(hiddenOwner, contractAddress, signers.alice)).to.eq(signers.bob.address);
+    });
+
+    it("re-grants viewers after the hidden owner is rotated", async function () {
+      await contract.connect(signers.owner).grantViewer(1, signers.alice.address);
+
+      const rotatedOwner = await encryptOwner(signers.owner.address, signers.owner);
+      await contract.connect(signers.owner).setHiddenOwner(1, rotatedOwner.handles[0], rotatedOwner.inputProof);
+
+      const hiddenOwner = await contract.hiddenOwner(1);
+      expect(await fhevm.userDecryptEaddress(hiddenOwner, contractAddress, signers.alice)).to.eq(signers.owner.address);
+    });
+
+    it("moves the hidden owner to a fresh handle when a viewer is revoked", async function () {
+      await contract.connect(signers.owner).grantViewer(1, signers.alice.address);
+      await contract.connect(signers.owner).grantViewer(1, signers.bob.address);
+      const previousHandle = await contract.hiddenOwner(1);
+
+      await expect(contract.connect(signers.owner).revokeViewer(1, signers.alice.address))
+        .to.emit(contract, "ViewerRevoked")
+        .withArgs(1, signers.alice.address);
+      await expect(
+        contract.connect(signers.owner).revokeViewer(1, signers.alice.address),
+      ).to.be.revertedWithCustomError(contract, "NotViewer");
+
+      const refreshedHandle = await contract.hiddenOwner(1);
+      expect(refreshedHandle).to.not.eq(previousHandle);
+      expect(await contract.viewers(1)).to.deep.eq([signers.bob.address]);
+      expect(await fhevm.userDecryptEaddress(refreshedHandle, contractAddress, signers.owner)).to.eq(
+        signers.bob.address,
+      );
+      expect(await fhevm.userDecryptEaddress(refreshedHandle, contractAddress, signers.bob)).to.eq(signers.bob.address);
+      await expect(fhevm.userDecryptEaddress(refreshedHandle, contractAddress, signers.alice)).to.be.rejected;
+    });
+  });
+
+  describe("paid mints and withdrawals", function () {
+    const PRICE = ethers.parseEther("0.01");
+
+    beforeEach(async function () {
+      const encryptedOwner = await encryptOwner(signers.bob.address, signers.owner);
+      await contract
+        .connect(signers.owner)
+        .createCollection(
+          "Paid",
+          EMPTY_METADATA,
+          5,
+          0,
+          PRICE,
+          OPEN_WINDOW,
+          0,
+          encryptedOwner.handles[0],
+          encryptedOwner.inputProof,
+        );
+    });
+
+    async function requestAndFinalizeWithdrawal(recipient: string) {
+      const requestId = await contract.connect(signers.owner).requestWithdrawal.staticCall(1, recipient);
+      await (await contract.connect(signers.owner).requestWithdrawal(1, recipient)).wait();
+
+      const request = await contract.withdrawalRequest(requestId);
+      const decryption = await fhevm.publicDecrypt([request.matches]);
+      return contract.finalizeWithdrawal(requestId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    }
+
+    it("requires the exact mint price and accrues it to the collection balance", async function () {
+      await expect(contract.connect(signers.alice).mint(1)).to.be.revertedWithCustomError(contract, "IncorrectPayment");
+      await expect(contract.connect(signers.alice).mintBatch(1, 2, { value: PRICE })).to.be.revertedWithCustomError(
+        contract,
+        "IncorrectPayment",
+      );
+
+      await contract.connect(signers.alice).mintBatch(1, 2, { value: PRICE * 2n });
+      const collection = await contract.getCollection(1);
+      expect(collection.mintPrice).to.eq(PRICE);
+      expect(collection.balance).to.eq(PRICE * 2n);
+      expect(await ethers.provider.getBalance(contractAddress)).to.eq(PRICE * 2n);
+    });
+
+    it("lets only the creator change the mint price", async function () {
+      await expect(contract.connect(signers.alice).setMintPrice(1, 0)).to.be.revertedWithCustomError(
+        contract,
+        "NotCollectionOwner",
+      );
+
+      await expect(contract.connect(signers.owner).setMintPrice(1, 0))
+        .to.emit(contract, "MintPriceUpdated")
+        .withArgs(1, 0);
+      await contract.connect(signers.alice).mint(1);
+      expect((await contract.getCollection(1)).balance).to.eq(0n);
+    });
+
+    it("pays the balance out to the hidden owner", async function () {
+      await contract.connect(signers.alice).mintBatch(1, 3, { value: PRICE * 3n });
+      const before = await ethers.provider.getBalance(signers.bob.address);
+
+      await expect(requestAndFinalizeWithdrawal(signers.bob.address))
+        .to.emit(contract, "WithdrawalFinalized")
+        .withArgs(1, true);
+
+      expect(await ethers.provider.getBalance(signers.bob.address)).to.eq(before + PRICE * 3n);
+      expect((await contract.getCollection(1)).balance).to.eq(0n);
+      await expect(
+        contract.connect(signers.owner).requestWithdrawal(1, signers.bob.address),
+      ).to.be.revertedWithCustomError(contract, "NothingToWithdraw");
+    });
+
+    it("restores the balance when the recipient is not the hidden owner", async function () {
+      await contract.connect(signers.alice).mint(1, { value: PRICE });
+      await expect(
+        contract.connect(signers.alice).requestWithdrawal(1, signers.alice.address),
+      ).to.be.revertedWithCustomError(contract, "NotCollectionOwner");
+
+      const before = await ethers.provider.getBalance(signers.alice.address);
+      await expect(requestAndFinalizeWithdrawal(signers.alice.address))
+        .to.emit(contract, "WithdrawalFinalized")
+        .withArgs(1, false);
+
+      expect(await ethers.provider.getBalance(signers.alice.address)).to.eq(before);
+      expect((await contract.getCollection(1)).balance).to.eq(PRICE);
+    });
+
+    it("lets the creator cancel a pending withdrawal and request it again", async function () {
+      await contract.connect(signers.alice).mintBatch(1, 2, { value: PRICE * 2n });
+      await (await contract.connect(signers.owner).requestWithdrawal(1, signers.bob.address)).wait();
+      expect((await contract.getCollection(1)).balance).to.eq(0n);
+
+      await expect(contract.connect(signers.bob).cancelWithdrawal(1)).to.be.revertedWithCustomError(
+        contract,
+        "NotCollectionOwner",
+      );
+      await expect(contract.connect(signers.owner).cancelWithdrawal(1))
+        .to.emit(contract, "WithdrawalCancelled")
+        .withArgs(1);
+      expect((await contract.withdrawalRequest(1)).pending).to.eq(false);
+      expect((await contract.getCollection(1)).balance).to.eq(PRICE * 2n);
+
+      await expect(contract.connect(signers.owner).cancelWithdrawal(1)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidRequest",
+      );
+      const request = await contract.withdrawalRequest(1);
+      const decryption = await fhevm.publicDecrypt([request.matches]);
+      await expect(
+        contract.finalizeWithdrawal(1, decryption.abiEncodedClearValues, decryption.decryptionProof),
+      ).to.be.revertedWithCustomError(contract, "InvalidRequest");
+
+      await expect(requestAndFinalizeWithdrawal(signers.bob.address)).to.changeEtherBalance(signers.bob, PRICE * 2n);
+      expect((await contract.getCollection(1)).balance).to.eq(0n);
+    });
+
+    async function enableAllowlist(allowance: number) {
+      const allowances = await fhevm
+        .createEncryptedInput(contractAddress, signers.owner.address)
+        .add32(allowance)
+        .encrypt();
+      await contract
+        .connect(signers.owner)
+        .setAllowlist(1, [signers.alice.address], allowances.handles, allowances.inputProof);
+      await contract.connect(signers.owner).setAllowlistEnabled(1, true);
+    }
+
+    it("credits rejected allowlist payments to a refund the minter withdraws", async function () {
+      await enableAllowlist(1);
+
+      await contract.connect(signers.alice).requestAllowlistMint(1, 2, { value: PRICE * 2n });
+      const request = await contract.allowlistRequest(1);
+      expect(request.payment).to.eq(PRICE * 2n);
+      const decryption = await fhevm.publicDecrypt([request.approved]);
+      await expect(
+        contract.finalizeAllowlistMint(1, decryption.abiEncodedClearValues, decryption.decryptionProof),
+      ).to.changeEtherBalance(signers.alice, 0n);
+      expect(await contract.refundOf(signers.alice.address)).to.eq(PRICE * 2n);
+
+      await expect(contract.connect(signers.bob).withdrawRefund()).to.be.revertedWithCustomError(
+        contract,
+        "NothingToWithdraw",
+      );
+      const withdrawal = contract.connect(signers.alice).withdrawRefund();
+      await expect(withdrawal).to.changeEtherBalance(signers.alice, PRICE * 2n);
+      await expect(withdrawal)
+        .to.emit(contract, "RefundWithdrawn")
+        .withArgs(signers.alice.address, PRICE * 2n);
+      expect(await contract.refundOf(signers.alice.address)).to.eq(0n);
+      expect(await ethers.provider.getBalance(contractAddress)).to.eq(0n);
+
+      await contract.connect(signers.alice).requestAllowlistMint(1, 1, { value: PRICE });
+      const approvedRequest = await contract.allowlistRequest(2);
+      const approval = await fhevm.publicDecrypt([approvedRequest.approved]);
+      await contract.finalizeAllowlistMint(2, approval.abiEncodedClearValues, approval.decryptionProof);
+      expect((await contract.getCollection(1)).balance).to.eq(PRICE);
+    });
+
+    it("cancels expired allowlist mints, releasing the supply, allowance and payment", async function () {
+      await enableAllowlist(5);
+      await contract.connect(signers.alice).requestAllowlistMint(1, 5, { value: PRICE * 5n });
+      await expect(
+        contract.connect(signers.bob).requestAllowlistMint(1, 1, { value: PRICE }),
+      ).to.be.revertedWithCustomError(contract, "SupplyExhausted");
+
+      await expect(contract.connect(signers.bob).cancelAllowlistMint(1)).to.be.revertedWithCustomError(
+        contract,
+        "RequestNotExpired",
+      );
+      await ethers.provider.send("evm_increaseTime", [24 * 60 * 60]);
+      await expect(contract.connect(signers.bob).cancelAllowlistMint(1))
+        .to.emit(contract, "AllowlistMintCancelled")
+        .withArgs(1);
+
+      const request = await contract.allowlistRequest(1);
+      expect(request.pending).to.eq(false);
+      expect(await contract.mintedBy(1, signers.alice.address)).to.eq(0n);
+      expect(await contract.refundOf(signers.alice.address)).to.eq(PRICE * 5n);
+      const allowance = await contract.allowlistAllowance(1, signers.alice.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, allowance, contractAddress, signers.alice)).to.eq(5n);
+
+      const decryption = await fhevm.publicDecrypt([request.approved]);
+      await expect(
+        contract.finalizeAllowlistMint(1, decryption.abiEncodedClearValues, decryption.decryptionProof),
+      ).to.be.revertedWithCustomError(contract, "InvalidRequest");
+      await expect(contract.cancelAllowlistMint(1)).to.be.revertedWithCustomError(contract, "InvalidRequest");
+
+      await contract.connect(signers.alice).requestAllowlistMint(1, 5, { value: PRICE * 5n });
+      const retry = await contract.allowlistRequest(2);
+      const approval = await fhevm.publicDecrypt([retry.approved]);
+      await contract.finalizeAllowlistMint(2, approval.abiEncodedClearValues, approval.decryptionProof);
+      expect(await contract.balanceOf(signers.alice.address)).to.eq(5n);
+    });
+  });
+
+  describe("royalties", function () {
+    beforeEach(async function () {
+      const encryptedOwner = await encryptOwner(signers.bob.address, signers.owner);
+      await contract
+        .connect(signers.owner)
+        .createCollection(
+          "Royal",
+          EMPTY_METADATA,
+          5,
+          0,
+          0,
+          OPEN_WINDOW,
+          500,
+          encryptedOwner.handles[0],
+          encryptedOwner.inputProof,
+        );
+      await (await contract.connect(signers.alice).mint(1)).wait();
+    });
+
+    it("advertises EIP-2981 and quotes royalties through the token's collection", async function () {
+      expect(await contract.supportsInterface("0x2a55205a")).to.eq(true);
+
+      const collection = await contract.getCollection(1);
+      expect(collection.royaltyBps).to.eq(500n);
+      expect(collection.royaltyReceiver).to.not.eq(ethers.ZeroAddress);
+
+      const [receiver, amount] = await contract.royaltyInfo(collection.baseTokenId, ethers.parseEther("2"));
+      expect(receiver).to.eq(collection.royaltyReceiver);
+      expect(amount).to.eq(ethers.parseEther("0.1"));
+      await expect(contract.royaltyInfo(collection.baseTokenId + 1n, 100)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidToken",
+      );
+    });
+
+    it("sweeps payments to the receiver into the balance paid out to the hidden owner", async function () {
+      const { royaltyReceiver } = await contract.getCollection(1);
+      const receiver = await ethers.getContractAt("RoyaltyReceiver", royaltyReceiver);
+      const royalty = ethers.parseEther("0.05");
+
+      // Payments fit in the 2300 gas stipend of `transfer` and `send`.
+      await signers.alice.sendTransaction({ to: royaltyReceiver, value: royalty, gasLimit: 21_000 + 2_300 });
+      await signers.alice.sendTransaction({ to: royaltyReceiver, value: royalty });
+      expect(await ethers.provider.getBalance(royaltyReceiver)).to.eq(royalty * 2n);
+      expect((await contract.getCollection(1)).balance).to.eq(0n);
+
+      await expect(receiver.connect(signers.bob).sweep())
+        .to.emit(contract, "RoyaltyReceived")
+        .withArgs(1, royalty * 2n);
+      expect(await ethers.provider.getBalance(royaltyReceiver)).to.eq(0n);
+      expect((await contract.getCollection(1)).balance).to.eq(royalty * 2n);
+      expect(await ethers.provider.getBalance(contractAddress)).to.eq(royalty * 2n);
+    });
+
+    it("lets only the creator change the royalty within 100%", async function () {
+      await expect(contract.connect(signers.alice).setRoyalty(1, 100)).to.be.revertedWithCustomError(
+        contract,
+        "NotCollectionOwner",
+      );
+      await expect(contract.connect(signers.owner).setRoyalty(1, 10_001)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidRoyalty",
+      );
+
+      const { royaltyReceiver, baseTokenId } = await contract.getCollection(1);
+      await expect(contract.connect(signers.owner).setRoyalty(1, 0))
+        .to.emit(contract, "RoyaltyUpdated")
+        .withArgs(1, 0, royaltyReceiver);
+      expect((await contract.royaltyInfo(baseTokenId, 1000))[1]).to.eq(0n);
+    });
+  });
+
+  describe("hidden owner actions", function () {
+    const PRICE = ethers.parseEther("0.01");
+
+    beforeEach(async function () {
+      const encryptedOwner = await encryptOwner(signers.bob.address, signers.owner);
+      await contract
+        .connect(signers.owner)
+        .createCollection(
+          "Delegated",
+          EMPTY_METADATA,
+          5,
+          0,
+          PRICE,
+          OPEN_WINDOW,
+          0,
+          encryptedOwner.handles[0],
+          encryptedOwner.inputProof,
+        );
+    });
+
+    async function finalizeAction(actionId: bigint) {
+      const action = await contract.ownerAction(actionId);
+      const decryption = await fhevm.publicDecrypt([action.authorized]);
+      return contract.finalizeOwnerAction(actionId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    }
+
+    async function requestAction(caller: HardhatEthersSigner, kind: OwnerActionKind, value: bigint) {
+      const actionId = await contract.connect(caller).requestOwnerAction.staticCall(1, kind, value);
+      await (await contract.connect(caller).requestOwnerAction(1, kind, value)).wait();
+      return actionId;
+    }
+
+    it("runs settings changes requested by the hidden owner after the proof", async function () {
+      const actionId = await requestAction(signers.bob, OwnerActionKind.SetMintPrice, 0n);
+      const pending = await contract.ownerAction(actionId);
+      expect(pending.status).to.eq(OwnerActionStatus.Pending);
+      expect(pending.caller).to.eq(signers.bob.address);
+      expect((await contract.getCollection(1)).mintPrice).to.eq(PRICE);
+
+      await expect(finalizeAction(actionId)).to.emit(contract, "OwnerActionFinalized").withArgs(actionId, true);
+      expect((await contract.ownerAction(actionId)).status).to.eq(OwnerActionStatus.Executed);
+      expect((await contract.getCollection(1)).mintPrice).to.eq(0n);
+      await expect(finalizeAction(actionId)).to.be.revertedWithCustomError(contract, "InvalidRequest");
+
+      const allowlistAction = await requestAction(signers.bob, OwnerActionKind.SetAllowlistEnabled, 1n);
+      await finalizeAction(allowlistAction);
+      expect((await contract.getCollection(1)).allowlistEnabled).to.eq(true);
+    });
+
+    it("rejects actions from addresses that are not the hidden owner", async function () {
+      const actionId = await requestAction(signers.alice, OwnerActionKind.SetMintPrice, 0n);
+
+      await expect(finalizeAction(actionId)).to.emit(contract, "OwnerActionFinalized").withArgs(actionId, false);
+      expect((await contract.ownerAction(actionId)).status).to.eq(OwnerActionStatus.Rejected);
+      expect((await contract.getCollection(1)).mintPrice).to.eq(PRICE);
+      await expect(
+        contract.connect(signers.bob).requestOwnerAction(1, OwnerActionKind.RotateHiddenOwner, 0),
+      ).to.be.revertedWithCustomError(contract, "InvalidOwnerAction");
+    });
+
+    it("pays withdrawals to the hidden owner who requested them", async function () {
+      await contract.connect(signers.alice).mintBatch(1, 2, { value: PRICE * 2n });
+      const actionId = await requestAction(signers.bob, OwnerActionKind.Withdraw, 0n);
+
+      await expect(finalizeAction(actionId)).to.changeEtherBalance(signers.bob, PRICE * 2n);
+      expect((await contract.getCollection(1)).balance).to.eq(0n);
+    });
+
+    it("lets the hidden owner rotate itself and invalidates stale requests", async function () {
+      const staleAction = await requestAction(signers.bob, OwnerActionKind.SetMintPrice, 0n);
+
+      const newOwner = await fhevm
+        .createEncryptedInput(contractAddress, signers.bob.address)
+        .addAddress(signers.alice.address)
+        .encrypt();
+      const rotationId = await contract
+        .connect(signers.bob)
+        .requestHiddenOwnerRotation.staticCall(1, newOwner.handles[0], newOwner.inputProof);
+      await contract.connect(signers.bob).requestHiddenOwnerRotation(1, newOwner.handles[0], newOwner.inputProof);
+      await expect(finalizeAction(rotationId)).to.emit(contract, "HiddenOwnerUpdated");
+
+      const hiddenOwner = await contract.hiddenOwner(1);
+      expect(await fhevm.userDecryptEaddress(hiddenOwner, contractAddress, signers.owner)).to.eq(signers.alice.address);
+
+      await expect(finalizeAction(staleAction)).to.emit(contract, "OwnerActionFinalized").withArgs(staleAction, false);
+      expect((await contract.getCollection(1)).mintPrice).to.eq(PRICE);
+    });
+
+    it("keeps pending requests valid when the owner handle is refreshed without a rotation", async function () {
+      const priceAction = await requestAction(signers.bob, OwnerActionKind.SetMintPrice, 0n);
+      const allowlistAction = await requestAction(signers.bob, OwnerActionKind.SetAllowlistEnabled, 1n);
+      const handle = await contract.hiddenOwner(1);
+
+      await (await contract.connect(signers.owner).grantViewer(1, signers.alice.address)).wait();
+      await (await contract.connect(signers.owner).revokeViewer(1, signers.alice.address)).wait();
+      await (await contract.connect(signers.owner).transferCreator(1, signers.alice.address)).wait();
+      await (await contract.connect(signers.alice).acceptCreator(1)).wait();
+      expect(await contract.hiddenOwner(1)).to.not.eq(handle);
+
+      await expect(finalizeAction(priceAction)).to.emit(contract, "OwnerActionFinalized").withArgs(priceAction, true);
+      expect((await contract.getCollection(1)).mintPrice).to.eq(0n);
+
+      await (await contract.connect(signers.alice).renounceCreator(1)).wait();
+      await expect(finalizeAction(allowlistAction))
+        .to.emit(contract, "OwnerActionFinalized")
+        .withArgs(allowlistAction, true);
+      expect((await contract.getCollection(1)).allowlistEnabled).to.eq(true);
+    });
+  });
+
+  describe("ERC721 transfers and approvals", function () {
+    let tokenId: bigint;
+
+    async function deployReceiver(behaviour: ReceiverBehaviour) {
+      const factory = (await ethers.getContractFactory("ERC721ReceiverMock")) as ERC721ReceiverMock__factory;
+      const receiver = await factory.deploy(behaviour);
+      return receiver;
+    }
+
+    beforeEach(async function () {
+      const encryptedOwner = await encryptOwner(signers.owner.address, signers.owner);
+      await contract
+        .connect(signers.owner)
+        .createCollection(
+          "Tradeable",
+          EMPTY_METADATA,
+          3,
+          0,
+          0,
+          OPEN_WINDOW,
+          0,
+          encryptedOwner.handles[0],
+          encryptedOwner.inputProof,
+        );
+      await (await contract.connect(signers.alice).mint(1)).wait();
+      tokenId = (await contract.getCollection(1)).baseTokenId;
+    });
+
+    it("advertises ERC165 and ERC721 interfaces", async function () {
+      expect(await contract.supportsInterface("0x01ffc9a7")).to.eq(true);
+      expect(await contract.supportsInterface("0x80ac58cd")).to.eq(true);
+      expect(await contract.supportsInterface("0xffffffff")).to.eq(false);
+    });
+
+    it("lets the owner transfer and updates balances", async function () {
+      await expect(contract.connect(signers.alice).transferFrom(signers.alice.address, signers.bob.address, tokenId))
+        .to.emit(contract, "Transfer")
+        .withArgs(signers.alice.address, signers.bob.address, tokenId);
+
+      expect(await contract.ownerOf(tokenId)).to.eq(signers.bob.address);
+      expect(await contract.balanceOf(signers.alice.address)).to.eq(0n);
+      expect(await contract.balanceOf(signers.bob.address)).to.eq(1n);
+    });
+
+    it("rejects transfers from non-owners, wrong owners and to the zero address", async function () {
+      await expect(
+        contract.connect(signers.bob).transferFrom(signers.alice.address, signers.bob.address, tokenId),
+      ).to.be.revertedWithCustomError(contract, "NotTokenOwnerOrApproved");
+      await expect(
+        contract.connect(signers.alice).transferFrom(signers.bob.address, signers.alice.address, tokenId),
+      ).to.be.revertedWithCustomError(contract, "IncorrectOwner");
+      await expect(
+        contract.connect(signers.alice).transferFrom(signers.alice.address, ethers.ZeroAddress, tokenId),
+      ).to.be.revertedWithCustomError(contract, "ZeroAddress");
+      await expect(
+        contract.connect(signers.alice).transferFrom(signers.alice.address, signers.bob.address, tokenId + 1n),
+      ).to.be.revertedWithCustomError(contract, "InvalidToken");
+    });
+
+    it("lets an approved address transfer once and clears the approval", async function () {
+      await expect(contract.connect(signers.alice).approve(signers.bob.address, tokenId))
+        .to.emit(contract, "Approval")
+        .withArgs(signers.alice.address, signers.bob.address, tokenId);
+      expect(await contract.getApproved(tokenId)).to.eq(signers.bob.address);
+
+      await contract.connect(signers.bob).transferFrom(signers.alice.address, signers.owner.address, tokenId);
+
+      expect(await contract.ownerOf(tokenId)).to.eq(signers.owner.address);
+      expect(await contract.getApproved(tokenId)).to.eq(ethers.ZeroAddress);
+      await expect(
+        contract.connect(signers.bob).transferFrom(signers.owner.address, signers.bob.address, tokenId),
+      ).to.be.revertedWithCustomError(contract, "NotTokenOwnerOrApproved");
+    });
+
+    it("lets operators approve and transfer on behalf of the owner", async function () {
+      await expect(contract.connect(signers.bob).approve(signers.bob.address, tokenId)).to.be.revertedWithCustomError(
+        contract,
+        "NotTokenOwnerOrApproved",
+      );
+      await expect(
+        contract.connect(signers.alice).setApprovalForAll(signers.alice.address, true),
+      ).to.be.revertedWithCustomError(contract, "InvalidOperator");
+
+      await expect(contract.connect(signers.alice).setApprovalForAll(signers.bob.address, true))
+        .to.emit(contract, "ApprovalForAll")
+        .withArgs(signers.alice.address, signers.bob.address, true);
+      expect(await contract.isApprovedForAll(signers.alice.address, signers.bob.address)).to.eq(true);
+
+      await contract.connect(signers.bob).approve(signers.owner.address, tokenId);
+      expect(await contract.getApproved(tokenId)).to.eq(signers.owner.address);
+
+      await contract.connect(signers.bob).transferFrom(signers.alice.address, signers.bob.address, tokenId);
+      expect(await contract.ownerOf(tokenId)).to.eq(signers.bob.address);
+
+      await contract.connect(signers.alice).setApprovalForAll(signers.bob.address, false);
+      expect(await contract.isApprovedForAll(signers.alice.address, signers.bob.address)).to.eq(false);
+    });
+
+    it("safe-transfers to contracts that accept ERC721 tokens", async function () {
+      const receiver = await deployReceiver(ReceiverBehaviour.Accept);
+      const receiverAddress = await receiver.getAddress();
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          ["safeTransferFrom(address,address,uint256,bytes)"](signers.alice.address, receiverAddress, tokenId, "0x42"),
+      )
+        .to.emit(receiver, "Received")
+        .withArgs(signers.alice.address, signers.alice.address, tokenId, "0x42");
+
+      expect(await contract.ownerOf(tokenId)).to.eq(receiverAddress);
+    });
+
+    it("safe-transfers to externally owned accounts without a receiver check", async function () {
+      await contract
+        .connect(signers.alice)
+        ["safeTransferFrom(address,address,uint256)"](signers.alice.address, signers.bob.address, tokenId);
+
+      expect(await contract.ownerOf(tokenId)).to.eq(signers.bob.address);
+    });
+
+    it("reverts safe transfers to contracts that reject the token", async function () {
+      const wrongSelector = await deployReceiver(ReceiverBehaviour.WrongSelector);
+      const revertEmpty = await deployReceiver(ReceiverBehaviour.RevertEmpty);
+      const revertWithMessage = await deployReceiver(ReceiverBehaviour.RevertWithMessage);
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          ["safeTransferFrom(address,address,uint256)"](
+            signers.alice.address,
+            await wrongSelector.getAddress(),
+            tokenId,
+          ),
+      ).to.be.revertedWithCustomError(contract, "InvalidReceiver");
+      await expect(
+        contract
+          .connect(signers.alice)
+          ["safeTransferFrom(address,address,uint256)"](signers.alice.address, await revertEmpty.getAddress(), tokenId),
+      ).to.be.revertedWithCustomError(contract, "InvalidReceiver");
+      await expect(
+        contract
+          .connect(signers.alice)
+          ["safeTransferFrom(address,address,uint256)"](
+            signers.alice.address,
+            await revertWithMessage.getAddress(),
+            tokenId,
+          ),
+      ).to.be.revertedWithCustomError(revertWithMessage, "ReceiverRejected");
+
+      expect(await contract.ownerOf(tokenId)).to.eq(signers.alice.address);
+    });
+
+    it("still lets plain transferFrom move tokens into non-receiver contracts", async function () {
+      const nonReceiver = await deployReceiver(ReceiverBehaviour.WrongSelector);
+      const nonReceiverAddress = await nonReceiver.getAddress();
+
+      await contract.connect(signers.alice).transferFrom(signers.alice.address, nonReceiverAddress, tokenId);
+
+      expect(await contract.ownerOf(tokenId)).to.eq(nonReceiverAddress);
+    });
+
+    it("enumerates the tokens of an owner across mints and transfers", async function () {
+      await (await contract.connect(signers.alice).mintBatch(1, 2)).wait();
+      expect(await contract.tokensOfOwner(signers.alice.address, 0, 10)).to.deep.eq([
+        tokenId,
+        tokenId + 1n,
+        tokenId + 2n,
+      ]);
+      expect(await contract.tokensOfOwner(signers.alice.address, 1, 1)).to.deep.eq([tokenId + 1n]);
+      expect(await contract.tokensOfOwner(signers.alice.address, 5, 1)).to.deep.eq([]);
+
+      await contract.connect(signers.alice).transferFrom(signers.alice.address, signers.bob.address, tokenId);
+
+      // The last token is swapped into the freed slot.
+      expect(await contract.tokensOfOwner(signers.alice.address, 0, 10)).to.deep.eq([tokenId + 2n, tokenId + 1n]);
+      expect(await contract.tokenOfOwnerByIndex(signers.bob.address, 0)).to.eq(tokenId);
+      await expect(contract.tokenOfOwnerByIndex(signers.bob.address, 1)).to.be.revertedWithCustomError(
+        contract,
+        "OwnerIndexOutOfBounds",
+      );
+    });
+  });
+
+  describe("bulk creation manifest", function () {
+    silenceTaskOutput();
+
+    it("reports every invalid row before anything is sent", function () {
+      const { rows, errors } = validateManifest([
+        { name: "Valid", supply: "10", price: "0.01", royaltyBps: 500 },
+        { name: "", supply: 0 },
+        { name: "Bad", supply: "ten", owner: "0x1234", mintStart: 10, mintEnd: 5, royaltyBps: 20_000, colour: "red" },
+      ]);
+
+      expect(rows).to.have.length(1);
+      expect(rows[0].mintPrice).to.eq(ethers.parseEther("0.01"));
+      expect(errors).to.deep.eq([
+        "Row 2: name is required",
+        "Row 2: supply must be greater than zero",
+        "Row 3 (Bad): unknown column(s) colour",
+        'Row 3 (Bad): supply must be a non-negative integer, got "ten"',
+        'Row 3 (Bad): owner "0x1234" is not an address',
+        "Row 3 (Bad): mintEnd must be after mintStart",
+        "Row 3 (Bad): royaltyBps must be at most 10000",
+      ]);
+    });
+
+    it("creates every row of a CSV manifest and resumes from its report", async function () {
+      const dir = mkdtempSync(path.join(tmpdir(), "novamint-manifest-"));
+      const manifest = path.join(dir, "drops.csv");
+      const reportFile = path.join(dir, "drops.results.json");
+      const header = "name,supply,owner,price,description\n";
+      writeFileSync(manifest, `${header}Season 1,5,${signers.bob.address},0.01,"Opening, night"\nSeason 2,3,,,\n`);
+
+      await run("task:create-collections", { file: manifest });
+      const first = JSON.parse(readFileSync(reportFile, "utf8")) as CreationReport;
+      expect(first.rows.map(({ status, collectionId }) => [status, collectionId])).to.deep.eq([
+        ["created", "1"],
+        ["created", "2"],
+      ]);
+      const created = await contract.getCollection(1);
+      expect(created.description).to.eq("Opening, night");
+      expect(created.mintPrice).to.eq(ethers.parseEther("0.01"));
+      expect(await fhevm.userDecryptEaddress(created.hiddenOwner, contractAddress, signers.owner)).to.eq(
+        signers.bob.address,
+      );
+
+      // A rerun skips the rows the report already records and only creates the new one.
+      writeFileSync(
+        manifest,
+        `${header}Season 1,5,${signers.bob.address},0.01,"Opening, night"\nSeason 2,3,,,\nSeason 3,1,,,\n`,
+      );
+      await run("task:create-collections", { file: manifest });
+      const resumed = JSON.parse(readFileSync(reportFile, "utf8")) as CreationReport;
+      expect(resumed.rows.map(({ collectionId }) => collectionId)).to.deep.eq(["1", "2", "3"]);
+      expect(resumed.rows[0].txHash).to.eq(first.rows[0].txHash);
+      expect(await contract.totalCollections()).to.eq(3);
+
+      // A row marked failed after its transaction was sent, say by a timeout while waiting, is not created twice.
+      const encryptedOwner = await encryptOwner(signers.owner.address, signers.owner);
+      const landed = await contract
+        .connect(signers.owner)
+        .createCollection(
+          "Season 4",
+          EMPTY_METADATA,
+          1,
+          0,
+          0,
+          OPEN_WINDOW,
+          0,
+          encryptedOwner.handles[0],
+          encryptedOwner.inputProof,
+        );
+      await landed.wait();
+      resumed.rows.push({ row: 4, name: "Season 4", status: "failed", txHash: landed.hash, error: "timeout" });
+      writeFileSync(reportFile, JSON.stringify(resumed));
+      appendFileSync(manifest, "Season 4,1,,,\n");
+      await run("task:create-collections", { file: manifest });
+      const recovered = JSON.parse(readFileSync(reportFile, "utf8")) as CreationReport;
+      expect(recovered.rows[3]).to.deep.eq({
+        row: 4,
+        name: "Season 4",
+        status: "created",
+        collectionId: "4",
+        txHash: landed.hash,
+      });
+      expect(await contract.totalCollections()).to.eq(4);
+
+      writeFileSync(manifest, `${header}Renamed,5,,,\n`);
+      await expect(run("task:create-collections", { file: manifest })).to.be.rejectedWith("changed since");
+      rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe("read-only tasks", function () {
+    silenceTaskOutput();
+
+    beforeEach(async function () {
+      for (const name of ["Readable", "Unminted"]) {
+        const encryptedOwner = await encryptOwner(signers.bob.address, signers.owner);
+        await contract
+          .connect(signers.owner)
+          .createCollection(
+            name,
+            EMPTY_METADATA,
+            5,
+            0,
+            0,
+            OPEN_WINDOW,
+            0,
+            encryptedOwner.handles[0],
+            encryptedOwner.inputProof,
+          );
+      }
+      await contract.connect(signers.alice).mintBatch(1, 2);
+      await contract.connect(signers.bob).mint(1);
+    });
+
+    it("lists collections, tokens and holders", async function () {
+      const collections = (await run("task:collections", { json: true })) as CollectionRecord[];
+      expect(collections.map(({ id, name, minted }) => [id, name, minted])).to.deep.eq([
+        ["1", "Readable", "3"],
+        ["2", "Unminted", "0"],
+      ]);
+
+      const details = await run("task:collection", { id: "1", json: true });
+      expect(details.hiddenOwnerHistory).to.have.length(1);
+      await expect(run("task:collection", { id: "9", json: true })).to.be.rejectedWith("Collection 9 does not exist");
+
+      expect(await run("task:token", { id: "3", json: true })).to.deep.include({
+        exists: true,
+        owner: signers.bob.address,
+        collectionId: "1",
+      });
+      // Reserved for collection 1 but not minted yet.
+      expect(await run("task:token", { id: "4", json: true })).to.deep.eq({ tokenId: "4", exists: false });
+
+      const holders = (await run("task:holders", { collectionId: "1", json: true })) as HolderRecord[];
+      expect(holders).to.deep.eq([
+        { holder: signers.alice.address, tokenIds: ["1", "2"] },
+        { holder: signers.bob.address, tokenIds: ["3"] },
+      ]);
+    });
+
+    it("exports collections, tokens and encrypted handles as CSV", async function () {
+      const dir = mkdtempSync(path.join(tmpdir(), "novamint-export-"));
+      await run("task:export", { format: "csv", out: dir });
+
+      const collectionsCsv = readFileSync(path.join(dir, "collections.csv"), "utf8").trim().split("\n");
+      expect(collectionsCsv).to.have.length(3);
+      expect(collectionsCsv[0]).to.match(/^id,name,description,/);
+      expect(readFileSync(path.join(dir, "tokens.csv"), "utf8").trim().split("\n")).to.deep.eq([
+        "collectionId,tokenId,owner",
+        `1,1,${signers.alice.address}`,
+        `1,2,${signers.alice.address}`,
+        `1,3,${signers.bob.address}`,
+      ]);
+      const handles = readFileSync(path.join(dir, "hidden-owners.csv"), "utf8").trim().split("\n");
+      expect(handles[1]).to.contain(await contract.hiddenOwner(1));
+      expect(handles).to.have.length(3);
+      rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe("proxy upgrades", function () {
+    it("initializes the proxy once and locks the implementation", async function () {
+      await expect(contract.connect(signers.alice).initialize()).to.be.revertedWithCustomError(
+        contract,
+        "AlreadyInitialized",
+      );
+
+      const implementation = NovaMint__factory.connect(
+        (await deployments.get("NovaMint_Implementation")).address,
+        signers.alice,
+      );
+      await expect(implementation.initialize()).to.be.revertedWithCustomError(implementation, "AlreadyInitialized");
+    });
+
+    it("keeps the storage layout append-only against the committed snapshot", async function () {
+      const snapshot = readLayoutSnapshot();
+      const current = await readStorageLayout(artifacts, "NovaMint");
+
+      expect(compareStorageLayouts(snapshot, current)).to.deep.eq([]);
+      expect(current, "run `npx hardhat task:storage-layout --update` after appending storage").to.deep.eq(snapshot);
+      expect(compareStorageLayouts(current, await readStorageLayout(artifacts, "NovaMintV2Mock"))).to.deep.eq([]);
+    });
+
+    it("reports removed, reordered, retyped and inserted storage", async function () {
+      const snapshot = readLayoutSnapshot();
+      const [first, second, ...rest] = snapshot.storage;
+
+      const removed = { ...snapshot, storage: snapshot.storage.slice(0, -1) };
+      expect(compareStorageLayouts(snapshot, removed)).to.have.length(1);
+
+      const reordered = {
+        ...snapshot,
+        storage: [{ ...second, slot: first.slot }, { ...first, slot: second.slot }, ...rest],
+      };
+      expect(compareStorageLayouts(snapshot, reordered)).to.have.length(2);
+
+      const retyped = { ...snapshot, storage: [{ ...first, type: "uint128" }, second, ...rest] };
+      expect(compareStorageLayouts(snapshot, retyped)[0]).to.contain("_collectionCount");
+
+      const collection = snapshot.structs["struct NovaMint.Collection"];
+      const inserted = {
+        ...snapshot,
+        structs: {
+          ...snapshot.structs,
+          "struct NovaMint.Collection": [{ label: "inserted", slot: 0, offset: 0, type: "uint256" }, ...collection],
+        },
+      };
+      expect(compareStorageLayouts(snapshot, inserted)).to.have.length(collection.length);
+
+      const { "struct NovaMint.Collection": _dropped, ...remainingStructs } = snapshot.structs;
+      const missingStruct = { ...snapshot, structs: remainingStructs };
+      expect(compareStorageLayouts(snapshot, missingStruct)).to.deep.eq([
+        "struct NovaMint.Collection was removed or renamed",
+      ]);
+    });
+
+    it("upgrades a populated deployment without losing collections, owners or encrypted handles", async function () {
+      const encryptedOwner = await encryptOwner(signers.bob.address, signers.owner);
+      await contract
+        .connect(signers.owner)
+        .createCollection(
+          "Before",
+          EMPTY_METADATA,
+          4,
+          0,
+          0,
+          OPEN_WINDOW,
+          0,
+          encryptedOwner.handles[0],
+          encryptedOwner.inputProof,
+        );
+      await (await contract.connect(signers.alice).mintBatch(1, 3)).wait();
+      await contract.connect(signers.alice).transferFrom(signers.alice.address, signers.bob.address, 2);
+      const allowances = await fhevm.createEncryptedInput(contractAddress, signers.owner.address).add32(3).encrypt();
+      await contract
+        .connect(signers.owner)
+        .setAllowlist(1, [signers.alice.address], allowances.handles, allowances.inputProof);
+
+      const collectionBefore = await contract.getCollection(1);
+      const hiddenOwnerBefore = await contract.hiddenOwner(1);
+      const allowanceBefore = await contract.allowlistAllowance(1, signers.alice.address);
+      const implementationBefore = (await deployments.get("NovaMint_Implementation")).address;
+
+      await deployments.deploy("NovaMint", {
+        contract: "NovaMintV2Mock",
+        from: signers.owner.address,
+        libraries: await deployNovaMintLibraries(deployments, signers.owner.address),
+        proxy: NOVAMINT_PROXY,
+      });
+
+      expect((await deployments.get("NovaMint")).address).to.eq(contractAddress);
+      expect((await deployments.get("NovaMint_Implementation")).address).to.not.eq(implementationBefore);
+
+      const upgraded = NovaMintV2Mock__factory.connect(contractAddress, signers.owner);
+      await upgraded.setUpgradeMarker(7);
+      expect(await upgraded.upgradeMarker()).to.eq(7n);
+
+      expect(await contract.getCollection(1)).to.deep.eq(collectionBefore);
+      expect(await contract.ownerOf(1)).to.eq(signers.alice.address);
+      expect(await contract.ownerOf(2)).to.eq(signers.bob.address);
+      expect(await contract.tokensOfOwner(signers.alice.address, 0, 10)).to.deep.eq([1n, 3n]);
+      expect(await contract.hiddenOwner(1)).to.eq(hiddenOwnerBefore);
+      expect(await fhevm.userDecryptEaddress(hiddenOwnerBefore, contractAddress, signers.owner)).to.eq(
+        signers.bob.address,
+      );
+      expect(await contract.allowlistAllowance(1, signers.alice.address)).to.eq(allowanceBefore);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, allowanceBefore, contractAddress, signers.alice)).to.eq(
+        3n,
+      );
+
+      // Token ids keep counting from the pre-upgrade state.
+      await contract.connect(signers.bob).mint(1);
+      expect(await contract.ownerOf(4)).to.eq(signers.bob.address);
+      await expect(contract.connect(signers.bob).mint(1)).to.be.revertedWithCustomError(contract, "SupplyExhausted");
+    });
+  });
 });
@@ -0,0 +1,216 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { deployments, ethers, fhevm } from "hardhat";
+import type { AddressInfo } from "net";
+
+import { IndexerAnalytics } from "../indexer/src/analytics";
+import { createApiServer } from "../indexer/src/api";
+import { IndexerStore } from "../indexer/src/db";
+import { NovaMintIndexer } from "../indexer/src/indexer";
+import { NovaMint } from "../types";
+
+const EMPTY_METADATA = { description: "", image: "", baseURI: "" };
+const OPEN_WINDOW = { start: 0, end: 0 };
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+// These tests drive `NovaMintIndexer`, the store and the API in-process against the Hardhat network. Running the
+// `indexer/src/index.ts` entry point against `npx hardhat node` (env config, deployment lookup, file-backed SQLite)
+// is out of scope here; follow the local-node steps in indexer/README.md to check it by hand.
+describe("NovaMint indexer", function () {
+  let signers: Signers;
+  let contract: NovaMint;
+  let contractAddress: string;
+  let store: IndexerStore;
+  let indexer: NovaMintIndexer;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { owner: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("NovaMint indexer tests require the FHEVM mock. Skipping on non-mock networks.");
+      this.skip();
+    }
+
+    // A fresh deployment instead of `deployments.fixture`: reverting to a snapshot rewinds the chain under the
+    // FHEVM mock coprocessor.
+    await deployments.run(["NovaMint"], { resetMemory: true, writeDeploymentsToFiles: false });
+    const deployment = await deployments.get("NovaMint");
+    contractAddress = deployment.address;
+    contract = await ethers.getContractAt("NovaMint", contractAddress);
+
+    store = new IndexerStore(":memory:");
+    indexer = new NovaMintIndexer(ethers.provider, store, {
+      contractAddress,
+      startBlock: deployment.receipt!.blockNumber,
+      confirmations: 0,
+      batchSize: 3,
+      reorgDepth: 64,
+    });
+  });
+
+  afterEach(function () {
+    store?.close();
+  });
+
+  async function createCollection(creator: HardhatEthersSigner, name: string, supply: number) {
+    const encryptedOwner = await fhevm
+      .createEncryptedInput(contractAddress, creator.address)
+      .addAddress(creator.address)
+      .encrypt();
+    await (
+      await contract
+        .connect(creator)
+        .createCollection(
+          name,
+          EMPTY_METADATA,
+          supply,
+          0,
+          0,
+          OPEN_WINDOW,
+          0,
+          encryptedOwner.handles[0],
+          encryptedOwner.inputProof,
+        )
+    ).wait();
+  }
+
+  it("indexes collections, mints, transfers and creator changes", async function () {
+    await createCollection(signers.owner, "Genesis", 3);
+    await createCollection(signers.alice, "Second", 2);
+    await (await contract.connect(signers.bob).mintBatch(1, 2)).wait();
+    await (await contract.connect(signers.bob).transferFrom(signers.bob.address, signers.alice.address, 2)).wait();
+    await (await contract.connect(signers.alice).transferCreator(2, signers.bob.address)).wait();
+    await (await contract.connect(signers.bob).acceptCreator(2)).wait();
+
+    const result = await indexer.sync();
+    expect(result?.events).to.be.greaterThan(0);
+    expect(result?.collectionIds).to.have.members([1, 2]);
+    expect(await indexer.sync()).to.eq(undefined);
+
+    expect(store.status()).to.include({ collections: 2, mints: 2, transfers: 3 });
+
+    const collections = store.listCollections({ offset: 0, limit: 10 }) as { name: string; minted: number }[];
+    expect(collections.map((collection) => [collection.name, collection.minted])).to.deep.eq([
+      ["Genesis", 2],
+      ["Second", 0],
+    ]);
+    const bobCollections = store.listCollections({ offset: 0, limit: 10 }, signers.bob.address) as { id: number }[];
+    expect(bobCollections.map((collection) => collection.id)).to.deep.eq([2]);
+
+    const hiddenOwner = await contract.hiddenOwner(2);
+    expect(store.getCollection(2)).to.include({ hiddenOwner, originalCreator: signers.alice.address });
+
+    expect(store.getToken(2)).to.include({
+      collectionId: 1,
+      owner: signers.alice.address,
+      minter: signers.bob.address,
+    });
+    expect(store.listHolders(1)).to.have.deep.members([
+      { owner: signers.alice.address, balance: 1 },
+      { owner: signers.bob.address, balance: 1 },
+    ]);
+    expect(store.listTokensOf(signers.bob.address)).to.deep.eq([{ tokenId: 1, collectionId: 1 }]);
+  });
+
+  it("rolls back events from orphaned blocks after a reorg", async function () {
+    await createCollection(signers.owner, "Genesis", 3);
+    await indexer.sync();
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await (await contract.connect(signers.bob).mint(1)).wait();
+    await indexer.sync();
+    expect(store.listMints({ offset: 0, limit: 10 })).to.have.length(1);
+
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await (await contract.connect(signers.alice).mintBatch(1, 2)).wait();
+
+    const result = await indexer.sync();
+    expect(result?.rolledBackTo).to.not.eq(undefined);
+    const mints = store.listMints({ offset: 0, limit: 10 }) as { minter: string }[];
+    expect(mints.map((mint) => mint.minter)).to.deep.eq([signers.alice.address, signers.alice.address]);
+    expect(store.getToken(1)).to.include({ owner: signers.alice.address });
+  });
+
+  it("aggregates mint velocity, holders, top minters, sell-through and creator totals", async function () {
+    await createCollection(signers.owner, "Genesis", 2);
+    await createCollection(signers.alice, "Second", 3);
+    await ethers.provider.send("evm_increaseTime", [3600]);
+    await (await contract.connect(signers.bob).mintBatch(1, 2)).wait();
+    await (await contract.connect(signers.alice).mint(2)).wait();
+    await (await contract.connect(signers.bob).transferFrom(signers.bob.address, signers.alice.address, 1)).wait();
+    await indexer.sync();
+
+    const analytics = new IndexerAnalytics(store.db);
+    expect(analytics.overview()).to.deep.eq({
+      collections: 2,
+      supply: 5,
+      mints: 3,
+      uniqueMinters: 2,
+      uniqueHolders: 2,
+      secondaryTransfers: 1,
+    });
+    expect(analytics.overview({ creator: signers.alice.address })).to.include({ collections: 1, mints: 1 });
+
+    const velocity = analytics.mintsOverTime({}, "hour") as { collectionId: number; mints: number }[];
+    expect(velocity.map(({ collectionId, mints }) => [collectionId, mints])).to.deep.eq([
+      [1, 2],
+      [2, 1],
+    ]);
+
+    expect(analytics.holders()).to.deep.eq([
+      { collectionId: 1, name: "Genesis", holders: 2, tokens: 2 },
+      { collectionId: 2, name: "Second", holders: 1, tokens: 1 },
+    ]);
+    expect(analytics.topMinters({}, 1)).to.deep.eq([{ minter: signers.bob.address, mints: 2, collections: 1 }]);
+
+    const [genesis, second] = analytics.sellThrough() as { minted: number; sellThroughSeconds: number | null }[];
+    expect(genesis.minted).to.eq(2);
+    expect(genesis.sellThroughSeconds).to.be.at.least(3600);
+    expect(second.sellThroughSeconds).to.eq(null);
+
+    expect(analytics.creators()).to.deep.eq([
+      { creator: signers.owner.address, collections: 1, supply: 2, minted: 2, holders: 2 },
+      { creator: signers.alice.address, collections: 1, supply: 3, minted: 1, holders: 1 },
+    ]);
+  });
+
+  it("serves indexed events over HTTP", async function () {
+    await createCollection(signers.owner, "Genesis", 3);
+    await (await contract.connect(signers.bob).mint(1)).wait();
+    await indexer.sync();
+
+    const server = createApiServer(store, indexer);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      const collections = (await (await fetch(`${baseUrl}/collections?limit=5`)).json()) as object[];
+      expect(collections).to.have.length(1);
+      expect(collections[0]).to.include({ id: 1, name: "Genesis", minted: 1, creator: signers.owner.address });
+
+      const holders = await (await fetch(`${baseUrl}/collections/1/holders`)).json();
+      expect(holders).to.deep.eq([{ owner: signers.bob.address, balance: 1 }]);
+
+      const tokens = await (await fetch(`${baseUrl}/accounts/${signers.bob.address.toLowerCase()}/tokens`)).json();
+      expect(tokens).to.deep.eq([{ tokenId: 1, collectionId: 1 }]);
+
+      const overview = await (await fetch(`${baseUrl}/analytics/overview?creator=${signers.owner.address}`)).json();
+      expect(overview).to.include({ collections: 1, mints: 1 });
+
+      expect((await fetch(`${baseUrl}/collections/9`)).status).to.eq(404);
+      expect((await fetch(`${baseUrl}/analytics/mints?bucket=week`)).status).to.eq(400);
+      expect((await fetch(`${baseUrl}/transfers?address=nope`)).status).to.eq(400);
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});